@@ -12,6 +12,9 @@ export * from './core/types';
 export * from './client/snappjack-client';
 export { default } from './client/snappjack-client';
 
+// Export the type-safe tool builder
+export * from './client/define-tool';
+
 // Export cross-platform utilities that are safe for client-side use
 export * from './core/event-emitter';
 export * from './core/websocket-wrapper';
@@ -0,0 +1,71 @@
+/**
+ * Unit tests for ReconnectBackoff
+ */
+
+import { ReconnectBackoff } from './backoff';
+import { BackoffStrategy } from '../core/types';
+
+describe('ReconnectBackoff', () => {
+  const delays = (backoff: ReconnectBackoff, attempts: number) =>
+    Array.from({ length: attempts }, (_, attempt) => backoff.next(attempt));
+
+  it('should double the delay up to the maximum with exponential backoff', () => {
+    const backoff = new ReconnectBackoff('exponential', 1000, 10000);
+
+    expect(delays(backoff, 6)).toEqual([1000, 2000, 4000, 8000, 10000, 10000]);
+  });
+
+  it('should not overflow after many attempts', () => {
+    const backoff = new ReconnectBackoff('exponential', 1000, 30000);
+
+    expect(backoff.next(5000)).toBe(30000);
+  });
+
+  it('should pick a random delay up to the exponential delay with full jitter', () => {
+    const backoff = new ReconnectBackoff('full-jitter', 1000, 10000, () => 0.5);
+
+    expect(delays(backoff, 5)).toEqual([500, 1000, 2000, 4000, 5000]);
+  });
+
+  it('should grow from the previous delay with decorrelated jitter', () => {
+    const randomValues = [0, 1, 1, 1, 0.5];
+    const backoff = new ReconnectBackoff('decorrelated-jitter', 1000, 20000, () => randomValues.shift()!);
+
+    // Each delay lies between the base delay and three times the previous delay
+    expect(delays(backoff, 5)).toEqual([1000, 3000, 9000, 20000, 20000]);
+  });
+
+  it('should start decorrelated jitter over after reset()', () => {
+    const backoff = new ReconnectBackoff('decorrelated-jitter', 1000, 20000, () => 1);
+    delays(backoff, 3);
+
+    backoff.reset();
+
+    expect(backoff.next(0)).toBe(3000);
+  });
+
+  it('should keep the base delay with fixed backoff', () => {
+    const backoff = new ReconnectBackoff('fixed', 2000, 30000);
+
+    expect(delays(backoff, 4)).toEqual([2000, 2000, 2000, 2000]);
+  });
+
+  it('should call custom functions with the attempt and previous delay', () => {
+    const custom = jest.fn((attempt: number, previousDelay: number) => previousDelay + 500);
+    const backoff = new ReconnectBackoff(custom, 1000, 30000);
+
+    expect(delays(backoff, 3)).toEqual([1500, 2000, 2500]);
+    expect(custom).toHaveBeenNthCalledWith(3, 2, 2000);
+  });
+
+  it('should clamp custom delays to between 0 and the maximum', () => {
+    const values = [-100, 99999, NaN, Infinity];
+    const backoff = new ReconnectBackoff(() => values.shift()!, 1000, 30000);
+
+    expect(delays(backoff, 4)).toEqual([0, 30000, 30000, 30000]);
+  });
+
+  it('should reject unknown strategies', () => {
+    expect(() => new ReconnectBackoff('linear' as BackoffStrategy, 1000, 30000)).toThrow("Unknown backoff strategy 'linear'");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * Snappjack SDK - Reconnect Backoff
+ *
+ * Computes the delay before each reconnect attempt. Jittered strategies
+ * spread reconnects out so clients do not all return at once after a bridge restart.
+ */
+
+import { BackoffStrategy } from '../core/types';
+
+export class ReconnectBackoff {
+  private strategy: BackoffStrategy;
+  private baseDelay: number;
+  private maxDelay: number;
+  private random: () => number;
+  private previousDelay: number;
+
+  constructor(strategy: BackoffStrategy, baseDelay: number, maxDelay: number, random: () => number = Math.random) {
+    if (typeof strategy !== 'function' && !['exponential', 'full-jitter', 'decorrelated-jitter', 'fixed'].includes(strategy)) {
+      throw new Error(`Unknown backoff strategy '${strategy}'`);
+    }
+    this.strategy = strategy;
+    this.baseDelay = baseDelay;
+    this.maxDelay = maxDelay;
+    this.random = random;
+    this.previousDelay = baseDelay;
+  }
+
+  /**
+   * Delay before the given attempt (0 for the first retry), capped at maxDelay
+   */
+  next(attempt: number): number {
+    const delay = this.clamp(this.compute(attempt));
+    this.previousDelay = delay;
+    return delay;
+  }
+
+  /**
+   * Start over after a successful connection
+   */
+  reset(): void {
+    this.previousDelay = this.baseDelay;
+  }
+
+  private compute(attempt: number): number {
+    const exponential = Math.min(this.maxDelay, this.baseDelay * Math.pow(2, attempt));
+
+    switch (this.strategy) {
+      case 'exponential':
+        return exponential;
+      case 'full-jitter':
+        return this.random() * exponential;
+      case 'decorrelated-jitter':
+        // Random between the base delay and three times the previous delay
+        return this.baseDelay + this.random() * (Math.max(this.baseDelay, this.previousDelay * 3) - this.baseDelay);
+      case 'fixed':
+        return this.baseDelay;
+      default:
+        return this.strategy(attempt, this.previousDelay);
+    }
+  }
+
+  private clamp(delay: number): number {
+    if (Number.isNaN(delay)) {
+      return this.maxDelay;
+    }
+    return Math.round(Math.min(this.maxDelay, Math.max(0, delay)));
+  }
+}
\ No newline at end of file
@@ -520,6 +520,60 @@ describe('ConnectionManager', () => {
       // Verify timer was cleared and attempts reset
       expect(syncConnectionManager['reconnectAttempts']).toBe(0);
     });
+
+    it('should use the configured backoff strategy and maximum delay', async () => {
+      const fixedConfig = {
+        ...validConfig,
+        testMode: false,
+        backoff: 'fixed' as const,
+        reconnectInterval: 5000,
+        maxReconnectDelay: 3000,
+        tokenProvider: () => Promise.resolve('sync-token')
+      };
+      const fixedManager = new ConnectionManager(fixedConfig, mockLogger);
+
+      const connectPromise = fixedManager.connect();
+      await Promise.resolve();
+      mockWebSocket.onopen!(new Event('open'));
+      await connectPromise;
+      mockCreateWebSocket.mockClear();
+
+      for (let attempt = 1; attempt <= 2; attempt++) {
+        await mockWebSocket.onclose!({ code: 1006, reason: 'Connection lost' } as CloseEvent);
+
+        // Capped at maxReconnectDelay on every attempt
+        jest.advanceTimersByTime(2999);
+        expect(mockCreateWebSocket).toHaveBeenCalledTimes(attempt - 1);
+        jest.advanceTimersByTime(1);
+        await flushPromiseQueue();
+        expect(mockCreateWebSocket).toHaveBeenCalledTimes(attempt);
+      }
+
+      await fixedManager.disconnect();
+    });
+
+    it('should keep reconnecting with unlimited attempts', async () => {
+      const failingProvider = jest.fn().mockRejectedValue(new Error('fetch error: ECONNREFUSED'));
+      const kioskManager = new ConnectionManager({
+        ...validConfig,
+        tokenProvider: failingProvider,
+        maxReconnectAttempts: Infinity
+      }, mockLogger);
+      const errorListener = jest.fn();
+      kioskManager.on('error', errorListener);
+
+      await expect(kioskManager.connect()).rejects.toThrow('fetch error: ECONNREFUSED');
+      for (let i = 0; i < 20; i++) {
+        await jest.advanceTimersByTimeAsync(1);
+        await flushPromiseQueue();
+      }
+
+      expect(failingProvider).toHaveBeenCalledTimes(21);
+      expect(kioskManager['reconnectTimer']).not.toBeNull();
+      expect(errorListener).not.toHaveBeenCalled();
+
+      await kioskManager.disconnect();
+    });
   });
 
   describe('4. Reconnection Failure Scenarios', () => {
@@ -849,6 +903,429 @@ describe('ConnectionManager', () => {
     });
   });
 
+  describe('6. Heartbeat', () => {
+    let heartbeatManager: ConnectionManager;
+
+    const connectWithHeartbeat = async (config: Partial<ConnectionConfig> = {}) => {
+      heartbeatManager = new ConnectionManager({ ...validConfig, heartbeatInterval: 1000, ...config }, mockLogger);
+      const connectPromise = heartbeatManager.connect();
+      await Promise.resolve(); // Let tokenProvider resolve
+      mockWebSocket.readyState = 1; // OPEN
+      mockWebSocket.onopen!(new Event('open'));
+      await connectPromise;
+    };
+
+    const sentPings = () => mockWebSocket.send.mock.calls
+      .map(([data]) => JSON.parse(data))
+      .filter(message => message.type === 'ping');
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(async () => {
+      mockWebSocket.readyState = 3; // CLOSED, so disconnect() does not wait for onclose
+      await heartbeatManager?.disconnect();
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('should send pings at the configured interval', async () => {
+      jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+      await connectWithHeartbeat();
+
+      jest.advanceTimersByTime(999);
+      expect(sentPings()).toHaveLength(0);
+
+      jest.advanceTimersByTime(1);
+      expect(sentPings()).toEqual([{ type: 'ping', sentAt: Date.parse('2025-01-01T00:00:01Z') }]);
+    });
+
+    it('should not ping when heartbeatInterval is unset', async () => {
+      await connectWithHeartbeat({ heartbeatInterval: undefined });
+
+      jest.advanceTimersByTime(60000);
+
+      expect(sentPings()).toHaveLength(0);
+    });
+
+    it('should emit latency from pongs without forwarding them as messages', async () => {
+      await connectWithHeartbeat();
+      const latencyListener = jest.fn();
+      const messageListener = jest.fn();
+      heartbeatManager.on('latency', latencyListener);
+      heartbeatManager.on('message', messageListener);
+
+      jest.advanceTimersByTime(1000);
+      const [ping] = sentPings();
+      jest.advanceTimersByTime(35);
+      mockWebSocket.onmessage!({ data: JSON.stringify({ type: 'pong', sentAt: ping.sentAt }) } as MessageEvent);
+
+      expect(latencyListener).toHaveBeenCalledWith(35);
+      expect(messageListener).not.toHaveBeenCalled();
+    });
+
+    it('should close and reconnect after too many missed heartbeats', async () => {
+      await connectWithHeartbeat({ maxMissedHeartbeats: 2 });
+      const closeListener = jest.fn();
+      heartbeatManager.on('close', closeListener);
+      mockCreateWebSocket.mockClear();
+
+      // Two unanswered pings, then the third beat gives up
+      jest.advanceTimersByTime(2000);
+      expect(closeListener).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1000);
+      await flushPromiseQueue();
+
+      expect(mockWebSocket.close).toHaveBeenCalledWith(4408, 'Heartbeat timeout');
+      expect(closeListener).toHaveBeenCalledWith({ code: 4408, reason: 'Heartbeat timeout' });
+      expect(heartbeatManager.getStatus()).toBe('disconnected');
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat any incoming message as a sign of life', async () => {
+      await connectWithHeartbeat({ maxMissedHeartbeats: 2 });
+
+      for (let beat = 0; beat < 5; beat++) {
+        jest.advanceTimersByTime(1000);
+        mockWebSocket.onmessage!({ data: JSON.stringify({ type: 'agent-connected', agentSessionId: 'a' }) } as MessageEvent);
+      }
+
+      expect(mockWebSocket.close).not.toHaveBeenCalled();
+      expect(sentPings()).toHaveLength(5);
+    });
+
+    it('should stop pinging after the socket closes', async () => {
+      await connectWithHeartbeat();
+
+      await mockWebSocket.onclose!({ code: 1000, reason: 'Bye' } as CloseEvent);
+      jest.advanceTimersByTime(5000);
+
+      expect(sentPings()).toHaveLength(0);
+    });
+  });
+
+  describe('7. Browser Connectivity', () => {
+    let browserManager: ConnectionManager;
+    let onLine: boolean;
+    let fakeWindow: EventTarget;
+    let fakeDocument: EventTarget & { visibilityState: string };
+    const browserGlobals = ['window', 'document', 'navigator'];
+    const originalGlobals = new Map<string, PropertyDescriptor | undefined>();
+
+    const installBrowserGlobals = () => {
+      fakeWindow = new EventTarget();
+      fakeDocument = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+      const values: { [name: string]: unknown } = {
+        window: fakeWindow,
+        document: fakeDocument,
+        navigator: { get onLine() { return onLine; } }
+      };
+      browserGlobals.forEach(name => {
+        originalGlobals.set(name, Object.getOwnPropertyDescriptor(global, name));
+        Object.defineProperty(global, name, { value: values[name], configurable: true, writable: true });
+      });
+    };
+
+    const connectAndDrop = async (tokenProvider = () => Promise.resolve('sync-token')) => {
+      browserManager = new ConnectionManager({
+        ...validConfig,
+        testMode: false,
+        tokenProvider
+      }, mockLogger);
+      const connectPromise = browserManager.connect();
+      await Promise.resolve();
+      mockWebSocket.onopen!(new Event('open'));
+      await connectPromise;
+      mockCreateWebSocket.mockClear();
+
+      // Dropped connection schedules a reconnect after the 1000ms backoff
+      mockWebSocket.readyState = 3; // CLOSED
+      await mockWebSocket.onclose!({ code: 1006, reason: 'Connection lost' } as CloseEvent);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      onLine = true;
+    });
+
+    afterEach(async () => {
+      mockWebSocket.readyState = 3; // CLOSED, so disconnect() does not wait for onclose
+      await browserManager?.disconnect();
+      originalGlobals.forEach((descriptor, name) => {
+        if (descriptor) {
+          Object.defineProperty(global, name, descriptor);
+        } else {
+          delete (global as { [name: string]: unknown })[name];
+        }
+      });
+      originalGlobals.clear();
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('should not listen for connectivity events outside browsers', async () => {
+      await connectAndDrop();
+
+      expect(browserManager['connectivityListenersAttached']).toBe(false);
+    });
+
+    it('should retry immediately with a fresh attempt counter when the network returns', async () => {
+      installBrowserGlobals();
+      await connectAndDrop();
+      browserManager['reconnectAttempts'] = 4;
+
+      fakeWindow.dispatchEvent(new Event('online'));
+      await flushPromiseQueue();
+
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+      expect(browserManager['reconnectAttempts']).toBe(1);
+      expect(browserManager['reconnectTimer']).toBeNull();
+    });
+
+    it('should pause reconnect attempts while offline', async () => {
+      installBrowserGlobals();
+      await connectAndDrop();
+
+      onLine = false;
+      fakeWindow.dispatchEvent(new Event('offline'));
+      jest.advanceTimersByTime(60000);
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).not.toHaveBeenCalled();
+
+      onLine = true;
+      fakeWindow.dispatchEvent(new Event('online'));
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not schedule reconnects for connections lost while offline', async () => {
+      installBrowserGlobals();
+      onLine = false;
+      await connectAndDrop();
+
+      expect(browserManager['reconnectTimer']).toBeNull();
+
+      fakeWindow.dispatchEvent(new Event('online'));
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry when the page becomes visible', async () => {
+      installBrowserGlobals();
+      await connectAndDrop();
+
+      fakeDocument.visibilityState = 'hidden';
+      fakeDocument.dispatchEvent(new Event('visibilitychange'));
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).not.toHaveBeenCalled();
+
+      fakeDocument.visibilityState = 'visible';
+      fakeDocument.dispatchEvent(new Event('visibilitychange'));
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start a single reconnect when online and visibility events arrive together', async () => {
+      installBrowserGlobals();
+      const pendingTokens: Array<(token: string) => void> = [];
+      await connectAndDrop(jest.fn()
+        .mockResolvedValueOnce('sync-token')
+        .mockImplementation(() => new Promise<string>(resolve => { pendingTokens.push(resolve); })));
+
+      fakeWindow.dispatchEvent(new Event('online'));
+      fakeDocument.dispatchEvent(new Event('visibilitychange'));
+      jest.advanceTimersByTime(60000); // The backoff timer was cleared, nothing else may fire
+      pendingTokens.forEach(resolve => resolve('late-token'));
+      await flushPromiseQueue();
+
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+      expect(browserManager['reconnectAttempts']).toBe(1);
+    });
+
+    it('should not start a second reconnect while the backoff attempt is fetching its token', async () => {
+      installBrowserGlobals();
+      const pendingTokens: Array<(token: string) => void> = [];
+      await connectAndDrop(jest.fn()
+        .mockResolvedValueOnce('sync-token')
+        .mockImplementation(() => new Promise<string>(resolve => { pendingTokens.push(resolve); })));
+
+      jest.advanceTimersByTime(1000); // Backoff timer fires, token fetch is pending
+      fakeWindow.dispatchEvent(new Event('online'));
+      pendingTokens.forEach(resolve => resolve('late-token'));
+      await flushPromiseQueue();
+
+      expect(mockCreateWebSocket).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep reconnecting when an app connect() overlaps the backoff timer and fails', async () => {
+      const rejectTokens: Array<(error: Error) => void> = [];
+      await connectAndDrop(jest.fn()
+        .mockResolvedValueOnce('sync-token')
+        .mockImplementationOnce(() => new Promise<string>((_resolve, reject) => { rejectTokens.push(reject); }))
+        .mockResolvedValue('retry-token'));
+      browserManager['reconnectAttempts'] = 2;
+
+      const appConnect = browserManager.connect().catch(() => {});
+      jest.advanceTimersByTime(1000); // Backoff timer fires while the app's token fetch is pending
+      rejectTokens.forEach(reject => reject(new Error('Token endpoint unavailable')));
+      await appConnect;
+      expect(mockCreateWebSocket).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(30000);
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).toHaveBeenCalled();
+    });
+
+    it('should leave healthy and deliberately closed connections alone', async () => {
+      installBrowserGlobals();
+      browserManager = new ConnectionManager({ ...validConfig, tokenProvider: () => Promise.resolve('sync-token') }, mockLogger);
+      const connectPromise = browserManager.connect();
+      await Promise.resolve();
+      mockWebSocket.readyState = 1; // OPEN
+      mockWebSocket.onopen!(new Event('open'));
+      await connectPromise;
+      mockCreateWebSocket.mockClear();
+
+      fakeWindow.dispatchEvent(new Event('online'));
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).not.toHaveBeenCalled();
+
+      mockWebSocket.readyState = 3; // CLOSED
+      await browserManager.disconnect();
+      fakeWindow.dispatchEvent(new Event('online'));
+      fakeDocument.dispatchEvent(new Event('visibilitychange'));
+      await flushPromiseQueue();
+      expect(mockCreateWebSocket).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('8. Outbox', () => {
+    let outboxManager: ConnectionManager;
+
+    const connect = async (config: Partial<ConnectionConfig> = {}) => {
+      outboxManager = new ConnectionManager({
+        ...validConfig,
+        outbox: { maxSize: 3, ttlMs: 5000 },
+        tokenProvider: () => Promise.resolve('sync-token'),
+        ...config
+      }, mockLogger);
+      const connectPromise = outboxManager.connect();
+      await Promise.resolve();
+      mockWebSocket.readyState = 1; // OPEN
+      mockWebSocket.onopen!(new Event('open'));
+      await connectPromise;
+    };
+
+    const dropConnection = async (code = 1006) => {
+      mockWebSocket.readyState = 3; // CLOSED
+      await mockWebSocket.onclose!({ code, reason: 'Connection lost' } as CloseEvent);
+    };
+
+    const reopen = async () => {
+      await jest.advanceTimersByTimeAsync(1);
+      mockWebSocket.readyState = 1; // OPEN
+      mockWebSocket.onopen!(new Event('open'));
+    };
+
+    const response = (id: string) => ({ jsonrpc: '2.0' as const, id, result: {}, agentSessionId: 'agent-a' });
+    const sentMessages = () => mockWebSocket.send.mock.calls.map(([data]) => JSON.parse(data));
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(async () => {
+      mockWebSocket.readyState = 3; // CLOSED, so disconnect() does not wait for onclose
+      await outboxManager?.disconnect();
+      jest.clearAllTimers();
+      jest.useRealTimers();
+    });
+
+    it('should queue responses and notifications while reconnecting and flush them after the open listeners', async () => {
+      await connect();
+      await dropConnection();
+
+      outboxManager.send(response('call-1'));
+      outboxManager.send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed', agentSessionId: 'agent-a' });
+      expect(mockWebSocket.send).not.toHaveBeenCalled();
+
+      outboxManager.on('open', () => outboxManager.send({ type: 'tools-registration', tools: [] }));
+      await reopen();
+
+      expect(sentMessages()).toEqual([
+        { type: 'tools-registration', tools: [] },
+        response('call-1'),
+        { jsonrpc: '2.0', method: 'notifications/tools/list_changed', agentSessionId: 'agent-a' }
+      ]);
+    });
+
+    it('should still throw for requests and control messages', async () => {
+      await connect();
+      await dropConnection();
+
+      expect(() => outboxManager.send({ jsonrpc: '2.0', id: 'snappjack-1', method: 'elicitation/create', agentSessionId: 'agent-a' }))
+        .toThrow('WebSocket is not connected');
+      expect(() => outboxManager.send({ type: 'force-disconnect-agent' })).toThrow('WebSocket is not connected');
+    });
+
+    it('should throw when the outbox is not configured or before the first connection', async () => {
+      expect(() => connectionManager.send(response('call-1'))).toThrow('WebSocket is not connected');
+
+      await connect({ outbox: undefined });
+      await dropConnection();
+
+      expect(() => outboxManager.send(response('call-1'))).toThrow('WebSocket is not connected');
+    });
+
+    it('should report messages dropped for overflow and expiry', async () => {
+      await connect();
+      const droppedListener = jest.fn();
+      outboxManager.on('outbox-dropped', droppedListener);
+      await dropConnection();
+
+      ['1', '2', '3', '4'].forEach(id => outboxManager.send(response(id)));
+      expect(droppedListener).toHaveBeenCalledWith({ reason: 'overflow', messages: [response('1')] });
+
+      jest.advanceTimersByTime(5000);
+      outboxManager.send(response('5'));
+      await reopen();
+
+      expect(droppedListener).toHaveBeenCalledWith({
+        reason: 'expired',
+        messages: [response('3'), response('4')]
+      });
+      expect(sentMessages()).toEqual([response('5')]);
+    });
+
+    it('should discard queued messages when reconnection is given up', async () => {
+      await connect();
+      const droppedListener = jest.fn();
+      outboxManager.on('outbox-dropped', droppedListener);
+      await dropConnection();
+      outboxManager.send(response('call-1'));
+
+      await dropConnection(1008);
+
+      expect(droppedListener).toHaveBeenCalledWith({ reason: 'closed', messages: [response('call-1')] });
+      expect(() => outboxManager.send(response('call-2'))).toThrow('WebSocket is not connected');
+    });
+
+    it('should discard queued messages on disconnect()', async () => {
+      await connect();
+      const droppedListener = jest.fn();
+      outboxManager.on('outbox-dropped', droppedListener);
+      await dropConnection();
+      outboxManager.send(response('call-1'));
+
+      await outboxManager.disconnect();
+
+      expect(droppedListener).toHaveBeenCalledWith({ reason: 'closed', messages: [response('call-1')] });
+    });
+  });
+
   describe('Additional scenarios for comprehensive coverage', () => {
     describe('Message handling', () => {
       beforeEach(async () => {
@@ -893,6 +1370,17 @@ describe('ConnectionManager', () => {
         expect(connectionManager['receivedUserApiKey']).toBe('uak_newkey123456789');
       });
 
+      it('should emit close event with code and reason', async () => {
+        const closeListener = jest.fn();
+        connectionManager.on('close', closeListener);
+
+        if (mockWebSocket.onclose) {
+          await mockWebSocket.onclose({ code: 1000, reason: 'Bye' } as CloseEvent);
+        }
+
+        expect(closeListener).toHaveBeenCalledWith({ code: 1000, reason: 'Bye' });
+      });
+
       it('should handle malformed JSON gracefully', () => {
         if (mockWebSocket.onmessage) {
           mockWebSocket.onmessage({
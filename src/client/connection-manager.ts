@@ -7,15 +7,22 @@
 
 import { EventEmitter } from '../core/event-emitter';
 import { createWebSocket, WebSocket, ReadyState } from '../core/websocket-wrapper';
+import { ReconnectBackoff } from './backoff';
+import { Outbox } from './outbox';
 import {
   ConnectionConfig,
   SnappjackStatus,
   SnappjackError,
   Logger,
   CredentialValidationResult,
-  WebSocketMessage
+  WebSocketMessage,
+  HeartbeatPongMessage,
+  OutboxDroppedEvent
 } from '../core/types';
 
+// Close code used when the bridge stops answering heartbeats
+const HEARTBEAT_TIMEOUT_CODE = 4408;
+
 export class ConnectionManager extends EventEmitter {
   private config: ConnectionConfig;
   private logger: Logger;
@@ -23,12 +30,27 @@ export class ConnectionManager extends EventEmitter {
   private status: SnappjackStatus = 'disconnected';
   private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
+  private backoff: ReconnectBackoff;
   private receivedUserApiKey: string | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private missedHeartbeats = 0;
+  private awaitingReconnect = false;  // A dropped connection should be restored
+  private isConnecting = false;  // From the token fetch until the socket opens, fails or closes
+  private offline = false;
+  private connectivityListenersAttached = false;
+  private outbox: Outbox | null;
+  private outboxAccepting = false;  // From the first open until reconnection is given up
 
   constructor(config: ConnectionConfig, logger: Logger) {
     super();
     this.config = config;
     this.logger = logger;
+    this.backoff = new ReconnectBackoff(
+      config.backoff ?? 'exponential',
+      config.reconnectInterval,
+      config.maxReconnectDelay ?? 30000
+    );
+    this.outbox = config.outbox ? new Outbox(config.outbox) : null;
   }
 
   /**
@@ -36,12 +58,14 @@ export class ConnectionManager extends EventEmitter {
    */
   async connect(): Promise<void> {
     this.logger.log('🔌 ConnectionManager: Starting connection...');
+    this.attachConnectivityListeners();
     
     if (this.ws && this.ws.readyState === ReadyState.OPEN) {
       this.logger.log('🔌 ConnectionManager: Already connected, returning early');
       return;
     }
 
+    this.isConnecting = true;
     try {
       // Fetch fresh token before connecting
       this.logger.log('🔑 ConnectionManager: Fetching fresh token...');
@@ -56,6 +80,7 @@ export class ConnectionManager extends EventEmitter {
         this.logger.log('✅ WebSocket created successfully');
 
         const connectTimeout = setTimeout(() => {
+          this.isConnecting = false;
           if (this.ws) {
             this.ws.close();
           }
@@ -65,9 +90,17 @@ export class ConnectionManager extends EventEmitter {
         this.ws.onopen = () => {
           this.logger.log('✅ ConnectionManager: WebSocket connection opened');
           clearTimeout(connectTimeout);
+          this.isConnecting = false;
+          this.clearReconnectTimer();
           this.reconnectAttempts = 0;
+          this.awaitingReconnect = false;
+          this.backoff.reset();
           this.updateStatus('connected');
+          this.startHeartbeat();
+          this.outboxAccepting = true;
           this.emit('open');
+          // After the open listeners, so queued messages follow tools-registration
+          this.flushOutbox();
           resolve();
         };
 
@@ -75,6 +108,13 @@ export class ConnectionManager extends EventEmitter {
           this.logger.log(`📨 ConnectionManager: Received message: ${event.data}`);
           try {
             const message = JSON.parse(event.data);
+
+            // Any message proves the connection is alive
+            this.missedHeartbeats = 0;
+            if (message.type === 'pong') {
+              this.handlePong(message);
+              return;
+            }
             
             // Special handling for connection-info messages
             if (message.type === 'connection-info' && message.userApiKey) {
@@ -90,6 +130,9 @@ export class ConnectionManager extends EventEmitter {
         this.ws.onclose = async (event) => {
           this.logger.log(`❌ ConnectionManager: WebSocket closed - Code: ${event.code}, Reason: ${event.reason}`);
           clearTimeout(connectTimeout);
+          this.isConnecting = false;
+          this.stopHeartbeat();
+          this.emit('close', { code: event.code, reason: event.reason });
           await this.handleClose(event.code, event.reason);
         };
 
@@ -100,11 +143,13 @@ export class ConnectionManager extends EventEmitter {
             this.logger.error(`❌ ConnectionManager: WebSocket error: ${event}`);
           }
           clearTimeout(connectTimeout);
+          this.isConnecting = false;
           this.handleError(event);
           reject(event);
         };
       });
     } catch (error) {
+      this.isConnecting = false;
       this.logger.error(`❌ ConnectionManager: Failed to connect: ${error}`);
       
       // If this is an initial connection attempt (not from reconnection), 
@@ -123,6 +168,10 @@ export class ConnectionManager extends EventEmitter {
    */
   async disconnect(): Promise<void> {
     this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.awaitingReconnect = false;
+    this.detachConnectivityListeners();
+    this.closeOutbox();
     
     if (this.ws) {
       return new Promise((resolve) => {
@@ -144,6 +193,10 @@ export class ConnectionManager extends EventEmitter {
       const messageStr = JSON.stringify(message);
       this.logger.log(`📤 ConnectionManager: Sending message: ${messageStr}`);
       this.ws.send(messageStr);
+    } else if (this.outbox && this.outboxAccepting && this.isQueueable(message)) {
+      const overflow = this.outbox.enqueue(message);
+      this.logger.log(`📥 ConnectionManager: Not connected, queued message (${this.outbox.size()} waiting)`);
+      this.reportDropped('overflow', overflow);
     } else {
       throw new Error('WebSocket is not connected');
     }
@@ -167,6 +220,128 @@ export class ConnectionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Start pinging the bridge so half-open sockets are noticed while idle
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.missedHeartbeats = 0;
+
+    const interval = this.config.heartbeatInterval;
+    if (!interval || interval <= 0) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => this.sendHeartbeat(), interval);
+  }
+
+  /**
+   * Stop the heartbeat timer
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Send a ping, or give up on the connection once too many went unanswered
+   */
+  private sendHeartbeat(): void {
+    const maxMissed = this.config.maxMissedHeartbeats ?? 2;
+    if (this.missedHeartbeats >= maxMissed) {
+      this.logger.warn(`💔 ConnectionManager: ${this.missedHeartbeats} heartbeat(s) unanswered, treating connection as dead`);
+      this.closeDeadConnection();
+      return;
+    }
+
+    this.missedHeartbeats++;
+    try {
+      this.send({ type: 'ping', sentAt: Date.now() });
+    } catch (error) {
+      this.logger.warn(`⚠️ ConnectionManager: Failed to send heartbeat: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Report round-trip latency from a pong
+   */
+  private handlePong(message: HeartbeatPongMessage): void {
+    if (typeof message.sentAt === 'number') {
+      const latencyMs = Math.max(0, Date.now() - message.sentAt);
+      this.logger.log(`💓 ConnectionManager: Heartbeat round trip ${latencyMs}ms`);
+      this.emit('latency', latencyMs);
+    }
+  }
+
+  /**
+   * Drop a socket that stopped responding. A half-open socket may never fire
+   * onclose, so the close is handled here instead of waiting for it.
+   */
+  private async closeDeadConnection(): Promise<void> {
+    this.stopHeartbeat();
+    const ws = this.ws;
+    if (!ws) {
+      return;
+    }
+
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onerror = null;
+    ws.onclose = null;
+    try {
+      ws.close(HEARTBEAT_TIMEOUT_CODE, 'Heartbeat timeout');
+    } catch (error) {
+      this.logger.warn(`⚠️ ConnectionManager: Failed to close dead socket: ${error}`);
+    }
+
+    this.emit('close', { code: HEARTBEAT_TIMEOUT_CODE, reason: 'Heartbeat timeout' });
+    await this.handleClose(HEARTBEAT_TIMEOUT_CODE, 'Heartbeat timeout');
+  }
+
+  /**
+   * Only JSON-RPC responses and notifications wait in the outbox. Requests and
+   * bridge control messages are stale after a reconnect, so they fail instead.
+   */
+  private isQueueable(message: WebSocketMessage): boolean {
+    return 'jsonrpc' in message && !('id' in message && 'method' in message);
+  }
+
+  /**
+   * Send queued messages after the socket reopens, dropping those past their TTL
+   */
+  private flushOutbox(): void {
+    if (!this.outbox || this.outbox.size() === 0) {
+      return;
+    }
+
+    const { ready, expired } = this.outbox.drain();
+    this.reportDropped('expired', expired);
+    this.logger.log(`📤 ConnectionManager: Flushing ${ready.length} queued message(s)`);
+    ready.forEach(message => this.send(message));
+  }
+
+  /**
+   * Stop queueing and discard anything still waiting, e.g. once reconnection is given up
+   */
+  private closeOutbox(): void {
+    this.outboxAccepting = false;
+    if (this.outbox) {
+      this.reportDropped('closed', this.outbox.clear());
+    }
+  }
+
+  private reportDropped(reason: OutboxDroppedEvent['reason'], messages: WebSocketMessage[]): void {
+    if (messages.length === 0) {
+      return;
+    }
+
+    this.logger.warn(`🗑️ ConnectionManager: Dropped ${messages.length} queued message(s) (${reason})`);
+    const event: OutboxDroppedEvent = { reason, messages };
+    this.emit('outbox-dropped', event);
+  }
+
   /**
    * Build WebSocket URL with authentication
    */
@@ -232,6 +407,8 @@ export class ConnectionManager extends EventEmitter {
     }
     
     if (error.type === 'auth_failed') {
+      this.awaitingReconnect = false;
+      this.closeOutbox();
       this.updateStatus('error');
       this.emit('error', error);
       return;
@@ -242,7 +419,11 @@ export class ConnectionManager extends EventEmitter {
     // Attempt reconnection if enabled and error allows retry
     if (this.config.autoReconnect && error.canRetry && this.shouldReconnect(code)) {
       this.scheduleReconnect();
-    } else if (!error.canRetry) {
+      return;
+    }
+
+    this.closeOutbox();
+    if (!error.canRetry) {
       this.emit('error', error);
     }
   }
@@ -359,6 +540,14 @@ export class ConnectionManager extends EventEmitter {
           canResetCredentials: false
         };
       
+      case HEARTBEAT_TIMEOUT_CODE:
+        return {
+          type: 'server_unreachable',
+          message: 'Connection lost - heartbeat not answered',
+          canRetry: true,
+          canResetCredentials: false
+        };
+
       case 1011: // Server error
         return {
           type: 'connection_failed',
@@ -399,26 +588,106 @@ export class ConnectionManager extends EventEmitter {
    */
   private scheduleReconnect(): void {
     this.clearReconnectTimer();
+    this.awaitingReconnect = true;
+
+    if (this.offline) {
+      this.logger.log('📴 ConnectionManager: Offline, waiting for the network before reconnecting');
+      return;
+    }
     
     const delay = this.config.testMode 
       ? 1 // 1ms for fast test execution
-      : Math.min(
-          this.config.reconnectInterval * Math.pow(2, this.reconnectAttempts),
-          30000 // Max 30 seconds
-        );
+      : this.backoff.next(this.reconnectAttempts);
 
     this.logger.log(`⏰ ConnectionManager: Scheduling reconnect in ${delay}ms (attempt ${this.reconnectAttempts + 1})`);
 
-    this.reconnectTimer = setTimeout(async () => {
-      this.reconnectAttempts++;
-      
-      try {
-        await this.connect();
-      } catch (error) {
-        // Handle different types of reconnection failures
-        await this.handleReconnectionError(error);
-      }
-    }, delay);
+    this.reconnectTimer = setTimeout(() => this.attemptReconnect(), delay);
+  }
+
+  /**
+   * Make one reconnection attempt
+   */
+  private async attemptReconnect(): Promise<void> {
+    if (this.isConnecting) {
+      // Try again later rather than dropping the attempt, in case the one in progress fails
+      this.logger.log('🔄 ConnectionManager: Connection attempt already in progress, rescheduling reconnect');
+      this.scheduleReconnect();
+      return;
+    }
+    this.reconnectAttempts++;
+    
+    try {
+      await this.connect();
+    } catch (error) {
+      // Handle different types of reconnection failures
+      await this.handleReconnectionError(error);
+    }
+  }
+
+  /**
+   * Listen for browser connectivity and visibility changes. No-op outside browsers.
+   */
+  private attachConnectivityListeners(): void {
+    if (this.connectivityListenersAttached || typeof window === 'undefined' || typeof window.addEventListener !== 'function') {
+      return;
+    }
+
+    window.addEventListener('online', this.handleOnline);
+    window.addEventListener('offline', this.handleOffline);
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    this.offline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    this.connectivityListenersAttached = true;
+  }
+
+  private detachConnectivityListeners(): void {
+    if (!this.connectivityListenersAttached) {
+      return;
+    }
+
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('offline', this.handleOffline);
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+    this.connectivityListenersAttached = false;
+  }
+
+  private handleOnline = (): void => {
+    this.offline = false;
+    this.reconnectNow('Network is back');
+  };
+
+  private handleOffline = (): void => {
+    this.offline = true;
+    if (this.reconnectTimer) {
+      this.logger.log('📴 ConnectionManager: Network went offline, pausing reconnection');
+      this.clearReconnectTimer();
+    }
+  };
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.reconnectNow('Page became visible');
+    }
+  };
+
+  /**
+   * Skip the remaining backoff and retry a dropped connection with a fresh attempt counter
+   */
+  private reconnectNow(reason: string): void {
+    const socketActive = this.ws !== null &&
+      (this.ws.readyState === ReadyState.OPEN || this.ws.readyState === ReadyState.CONNECTING);
+    if (!this.awaitingReconnect || this.offline || socketActive || this.isConnecting) {
+      return;
+    }
+
+    this.logger.log(`🌐 ConnectionManager: ${reason}, reconnecting now`);
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.backoff.reset();
+    this.attemptReconnect();
   }
 
   /**
@@ -439,6 +708,7 @@ export class ConnectionManager extends EventEmitter {
       } else {
         this.logger.error(`❌ ConnectionManager: Max reconnection attempts (${this.config.maxReconnectAttempts}) reached`);
         this.clearReconnectTimer(); // Clear any pending reconnection timer
+        this.closeOutbox();
         this.updateStatus('error');
         this.emit('error', {
           type: 'connection_failed',
@@ -451,6 +721,8 @@ export class ConnectionManager extends EventEmitter {
       // Stop reconnecting for non-retryable errors
       this.logger.error(`❌ ConnectionManager: ${errorClassification.reason}, stopping reconnection attempts`);
       this.clearReconnectTimer(); // Clear any pending reconnection timer
+      this.awaitingReconnect = false;
+      this.closeOutbox();
       this.updateStatus('error');
       this.emit('error', errorClassification.error);
     }
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for defineTool
+ * Type inference is checked at compile time (ts-jest type-checks this file)
+ */
+
+import { defineTool, FromSchema } from './define-tool';
+import { ToolCallMessage, ToolHandlerContext } from '../core/types';
+
+// Compile-time assertion that two types are identical
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+const assertType = <T extends true>(): T => true as T;
+
+describe('defineTool', () => {
+  const message = {} as ToolCallMessage;
+  const context = {} as ToolHandlerContext;
+
+  it('should return the tool definition unchanged', () => {
+    const handler = jest.fn();
+    const definition = {
+      name: 'rename_file',
+      description: 'Rename a file',
+      inputSchema: {
+        type: 'object',
+        properties: { path: { type: 'string' } },
+        required: ['path']
+      },
+      handler
+    } as const;
+
+    const tool = defineTool(definition);
+
+    expect(tool).toBe(definition);
+    expect(tool.handler).toBe(handler);
+  });
+
+  it('should type handler arguments from the input schema', async () => {
+    const tool = defineTool({
+      name: 'update_budget',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: ['food', 'transport'] },
+          amount: { type: 'number' },
+          note: { type: 'string' }
+        },
+        required: ['category', 'amount']
+      },
+      handler: async (args) => {
+        assertType<Equals<typeof args, { category: 'food' | 'transport'; amount: number; note?: string }>>();
+        return { content: [{ type: 'text', text: `${args.category}: ${args.amount.toFixed(2)}` }] };
+      }
+    });
+
+    const result = await tool.handler!({ category: 'food', amount: 12 }, message, context);
+
+    expect(result.content).toEqual([{ type: 'text', text: 'food: 12.00' }]);
+  });
+
+  it('should require structuredContent matching the output schema', async () => {
+    const tool = defineTool({
+      name: 'get_budget',
+      inputSchema: { type: 'object', properties: {} },
+      outputSchema: {
+        type: 'object',
+        properties: { total: { type: 'number' } },
+        required: ['total']
+      },
+      handler: async () => ({ structuredContent: { total: 100 } })
+    });
+
+    defineTool({
+      name: 'broken_budget',
+      inputSchema: { type: 'object', properties: {} },
+      outputSchema: {
+        type: 'object',
+        properties: { total: { type: 'number' } },
+        required: ['total']
+      },
+      // @ts-expect-error total must be a number
+      handler: async () => ({ structuredContent: { total: 'lots' } })
+    });
+
+    defineTool({
+      name: 'failing_budget',
+      inputSchema: { type: 'object', properties: {} },
+      outputSchema: {
+        type: 'object',
+        properties: { total: { type: 'number' } },
+        required: ['total']
+      },
+      // Error results do not need structuredContent
+      handler: async () => ({ content: [{ type: 'text', text: 'Budget unavailable' }], isError: true })
+    });
+
+    expect(await tool.handler!({}, message, context)).toEqual({ structuredContent: { total: 100 } });
+  });
+
+  it('should reject handlers that misuse their arguments', () => {
+    defineTool({
+      name: 'greet',
+      inputSchema: {
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name']
+      },
+      handler: async (args) => {
+        // @ts-expect-error name is a string, not a number
+        const doubled: number = args.name * 2;
+        // @ts-expect-error unknown properties are not allowed
+        const missing = args.nickname;
+        return { content: [{ type: 'text', text: `${doubled}${missing}` }] };
+      }
+    });
+
+    expect(true).toBe(true);
+  });
+});
+
+describe('FromSchema', () => {
+  it('should map JSON Schema constructs to TypeScript types', () => {
+    assertType<Equals<FromSchema<{ type: 'integer' }>, number>>();
+    assertType<Equals<FromSchema<{ type: 'boolean' }>, boolean>>();
+    assertType<Equals<FromSchema<{ type: readonly ['string', 'null'] }>, string | null>>();
+    assertType<Equals<FromSchema<{ const: 'fixed' }>, 'fixed'>>();
+    assertType<Equals<FromSchema<{ type: 'array'; items: { type: 'string' } }>, string[]>>();
+    assertType<Equals<FromSchema<{ anyOf: readonly [{ type: 'string' }, { type: 'number' }] }>, string | number>>();
+    assertType<Equals<FromSchema<{ type: 'object' }>, { [key: string]: unknown }>>();
+    assertType<Equals<
+      FromSchema<{
+        type: 'object';
+        properties: { tags: { type: 'array'; items: { type: 'string' } }; owner: { type: 'object'; properties: { id: { type: 'string' } }; required: readonly ['id'] } };
+        required: readonly ['owner'];
+      }>,
+      { owner: { id: string }; tags?: string[] }
+    >>();
+    assertType<Equals<FromSchema<{ description: 'no type' }>, unknown>>();
+
+    expect(true).toBe(true);
+  });
+});
\ No newline at end of file
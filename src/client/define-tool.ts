@@ -0,0 +1,107 @@
+/**
+ * Snappjack SDK - Type-Safe Tool Builder
+ *
+ * defineTool() infers a handler's argument and result types from literal
+ * JSON Schemas and returns a plain Tool for registerTool().
+ */
+
+import {
+  Tool,
+  ToolHandlerContext,
+  ToolCallMessage,
+  ToolResponse,
+  StructuredToolResponse,
+  ContentBlock
+} from '../core/types';
+
+// Object schema as written in a tool definition (readonly so `const` inference fits)
+export interface ObjectSchemaLiteral {
+  type: 'object';
+  properties?: { readonly [key: string]: object };
+  required?: readonly string[];
+  [key: string]: unknown;
+}
+
+/**
+ * TypeScript type described by a JSON Schema literal. Covers type, properties,
+ * required, items, enum, const, anyOf and oneOf; anything else becomes unknown.
+ */
+export type FromSchema<S> =
+  S extends { const: infer C } ? C
+  : S extends { enum: readonly (infer E)[] } ? E
+  : S extends { anyOf: readonly (infer U)[] } ? FromSchema<U>
+  : S extends { oneOf: readonly (infer U)[] } ? FromSchema<U>
+  : S extends { type: readonly (infer T)[] } ? FromSchemaType<S, T>
+  : S extends { type: infer T } ? FromSchemaType<S, T>
+  : unknown;
+
+type FromSchemaType<S, T> =
+  T extends 'string' ? string
+  : T extends 'number' | 'integer' ? number
+  : T extends 'boolean' ? boolean
+  : T extends 'null' ? null
+  : T extends 'array' ? (S extends { items: infer I } ? FromSchema<I>[] : unknown[])
+  : T extends 'object' ? FromObjectSchema<S>
+  : unknown;
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type FromObjectSchema<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } &
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]> }
+    >
+  : { [key: string]: unknown };
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+// Successful result of a tool with an outputSchema: structuredContent must match it
+export interface TypedStructuredResult<T> {
+  _meta?: { [key: string]: unknown };
+  content?: ContentBlock[];
+  isError?: false;
+  structuredContent: T;
+}
+
+// Tools without an outputSchema return any result; otherwise a matching result or an error
+export type TypedToolResult<O> = [O] extends [undefined]
+  ? ToolResponse | StructuredToolResponse
+  : TypedStructuredResult<FromSchema<O>> | (ToolResponse & { isError: true });
+
+export type TypedToolHandler<I, O> = (
+  args: FromSchema<I>,
+  message: ToolCallMessage,
+  context: ToolHandlerContext
+) => Promise<TypedToolResult<O>>;
+
+export type TypedTool<I extends ObjectSchemaLiteral, O extends ObjectSchemaLiteral | undefined> =
+  Omit<Tool, 'inputSchema' | 'outputSchema' | 'handler'> & {
+    inputSchema: I;
+    outputSchema?: O;
+    handler?: TypedToolHandler<I, O>;
+  };
+
+/**
+ * Define a tool whose handler arguments and result are typed from its schemas.
+ *
+ * ```typescript
+ * const rename = defineTool({
+ *   name: 'rename_file',
+ *   inputSchema: {
+ *     type: 'object',
+ *     properties: { path: { type: 'string' }, newName: { type: 'string' } },
+ *     required: ['path', 'newName']
+ *   },
+ *   handler: async ({ path, newName }) => ({ content: [{ type: 'text', text: `${path} -> ${newName}` }] })
+ * });
+ * snappjack.registerTool(rename);
+ * ```
+ */
+export function defineTool<
+  const I extends ObjectSchemaLiteral,
+  const O extends ObjectSchemaLiteral | undefined = undefined
+>(tool: TypedTool<I, O>): Tool {
+  // The registry validates arguments against inputSchema before the handler runs,
+  // so widening the handler's parameter type back to unknown is safe
+  return tool as unknown as Tool;
+}
\ No newline at end of file
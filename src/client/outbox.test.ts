@@ -0,0 +1,61 @@
+/**
+ * Unit tests for Outbox
+ */
+
+import { Outbox } from './outbox';
+import { WebSocketMessage } from '../core/types';
+
+describe('Outbox', () => {
+  const response = (id: string): WebSocketMessage => ({ jsonrpc: '2.0', id, result: {} });
+
+  it('should return queued messages in order', () => {
+    const outbox = new Outbox({});
+
+    outbox.enqueue(response('a'));
+    outbox.enqueue(response('b'));
+
+    expect(outbox.size()).toBe(2);
+    expect(outbox.drain()).toEqual({ ready: [response('a'), response('b')], expired: [] });
+    expect(outbox.size()).toBe(0);
+  });
+
+  it('should drop the oldest messages beyond maxSize', () => {
+    const outbox = new Outbox({ maxSize: 2 });
+
+    expect(outbox.enqueue(response('a'))).toEqual([]);
+    expect(outbox.enqueue(response('b'))).toEqual([]);
+    expect(outbox.enqueue(response('c'))).toEqual([response('a')]);
+    expect(outbox.drain().ready).toEqual([response('b'), response('c')]);
+  });
+
+  it('should separate messages older than the TTL', () => {
+    const outbox = new Outbox({ ttlMs: 1000 });
+
+    outbox.enqueue(response('old'));
+    jest.advanceTimersByTime(600);
+    outbox.enqueue(response('new'));
+    jest.advanceTimersByTime(500);
+
+    expect(outbox.drain()).toEqual({ ready: [response('new')], expired: [response('old')] });
+  });
+
+  it('should default to 100 messages kept for 30 seconds', () => {
+    const outbox = new Outbox({});
+
+    for (let i = 0; i <= 100; i++) {
+      outbox.enqueue(response(String(i)));
+    }
+    expect(outbox.size()).toBe(100);
+
+    jest.advanceTimersByTime(30001);
+    expect(outbox.drain().expired).toHaveLength(100);
+  });
+
+  it('should discard everything on clear()', () => {
+    const outbox = new Outbox({});
+    outbox.enqueue(response('a'));
+
+    expect(outbox.clear()).toEqual([response('a')]);
+    expect(outbox.size()).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Snappjack SDK - Outbox
+ *
+ * Bounded queue of messages waiting for the WebSocket to reopen.
+ * Messages older than the TTL are dropped instead of sent late.
+ */
+
+import { OutboxOptions, WebSocketMessage } from '../core/types';
+
+interface OutboxEntry {
+  message: WebSocketMessage;
+  queuedAt: number;
+}
+
+export interface DrainedOutbox {
+  ready: WebSocketMessage[];
+  expired: WebSocketMessage[];
+}
+
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private maxSize: number;
+  private ttlMs: number;
+
+  constructor(options: OutboxOptions) {
+    this.maxSize = options.maxSize ?? 100;
+    this.ttlMs = options.ttlMs ?? 30000;
+  }
+
+  /**
+   * Queue a message
+   * @returns Messages dropped to stay within maxSize, oldest first
+   */
+  enqueue(message: WebSocketMessage): WebSocketMessage[] {
+    this.entries.push({ message, queuedAt: Date.now() });
+    const overflow = Math.max(0, this.entries.length - this.maxSize);
+    return this.entries.splice(0, overflow).map(entry => entry.message);
+  }
+
+  /**
+   * Take every queued message, split into those still fresh enough to send and those that expired
+   */
+  drain(): DrainedOutbox {
+    const now = Date.now();
+    const drained: DrainedOutbox = { ready: [], expired: [] };
+    this.entries.forEach(entry => {
+      (now - entry.queuedAt > this.ttlMs ? drained.expired : drained.ready).push(entry.message);
+    });
+    this.entries = [];
+    return drained;
+  }
+
+  /**
+   * Discard every queued message
+   * @returns The discarded messages
+   */
+  clear(): WebSocketMessage[] {
+    const messages = this.entries.map(entry => entry.message);
+    this.entries = [];
+    return messages;
+  }
+
+  /**
+   * Number of queued messages
+   */
+  size(): number {
+    return this.entries.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for OutgoingRequests
+ */
+
+import { OutgoingRequests } from './outgoing-requests';
+import { OutgoingRequestMessage } from '../core/types';
+
+describe('OutgoingRequests', () => {
+  let sent: OutgoingRequestMessage[];
+  let outgoingRequests: OutgoingRequests;
+
+  beforeEach(() => {
+    sent = [];
+    outgoingRequests = new OutgoingRequests(message => {
+      sent.push(message);
+    });
+  });
+
+  it('should send requests with unique ids and resolve them with the matching result', async () => {
+    const first = outgoingRequests.request('session-1', 'elicitation/create', { message: 'Name?' }, { timeoutMs: 0 });
+    const second = outgoingRequests.request('session-1', 'elicitation/create', { message: 'Age?' }, { timeoutMs: 0 });
+
+    expect(sent).toEqual([
+      { jsonrpc: '2.0', id: 'snappjack-1', method: 'elicitation/create', params: { message: 'Name?' }, agentSessionId: 'session-1' },
+      { jsonrpc: '2.0', id: 'snappjack-2', method: 'elicitation/create', params: { message: 'Age?' }, agentSessionId: 'session-1' }
+    ]);
+
+    expect(outgoingRequests.handleResponse({ jsonrpc: '2.0', id: 'snappjack-2', result: { action: 'decline' } })).toBe(true);
+    expect(outgoingRequests.handleResponse({ jsonrpc: '2.0', id: 'snappjack-1', result: { action: 'cancel' } })).toBe(true);
+
+    await expect(first).resolves.toEqual({ action: 'cancel' });
+    await expect(second).resolves.toEqual({ action: 'decline' });
+    expect(outgoingRequests.size()).toBe(0);
+  });
+
+  it('should reject with the JSON-RPC error code', async () => {
+    const request = outgoingRequests.request('session-1', 'elicitation/create', {}, { timeoutMs: 0 });
+
+    outgoingRequests.handleResponse({ jsonrpc: '2.0', id: 'snappjack-1', error: { code: -32601, message: 'Method not found' } });
+
+    await expect(request).rejects.toMatchObject({ message: 'Method not found', code: -32601 });
+  });
+
+  it('should ignore responses that are unknown or come from another session', () => {
+    outgoingRequests.request('session-1', 'elicitation/create', {}, { timeoutMs: 0 }).catch(() => {});
+
+    expect(outgoingRequests.handleResponse({ jsonrpc: '2.0', id: 'snappjack-99', result: {} })).toBe(false);
+    expect(outgoingRequests.handleResponse({ jsonrpc: '2.0', id: 'snappjack-1', result: {}, agentSessionId: 'session-2' })).toBe(false);
+    expect(outgoingRequests.size()).toBe(1);
+  });
+
+  it('should reject requests that time out', async () => {
+    const request = outgoingRequests.request('session-1', 'elicitation/create', {}, { timeoutMs: 1000 });
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(request).rejects.toThrow("Request 'elicitation/create' timed out after 1000ms");
+    expect(outgoingRequests.size()).toBe(0);
+  });
+
+  it('should reject requests when their signal aborts', async () => {
+    const controller = new AbortController();
+    const request = outgoingRequests.request('session-1', 'elicitation/create', {}, { timeoutMs: 0, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(request).rejects.toThrow("Request 'elicitation/create' was cancelled");
+    expect(outgoingRequests.handleResponse({ jsonrpc: '2.0', id: 'snappjack-1', result: {} })).toBe(false);
+  });
+
+  it('should reject immediately when sending fails', async () => {
+    outgoingRequests = new OutgoingRequests(() => {
+      throw new Error('WebSocket is not connected');
+    });
+
+    await expect(outgoingRequests.request('session-1', 'elicitation/create', {}, { timeoutMs: 0 }))
+      .rejects.toThrow("Failed to send 'elicitation/create' request: WebSocket is not connected");
+    expect(outgoingRequests.size()).toBe(0);
+  });
+
+  it('should reject pending requests for one session or all sessions', async () => {
+    const first = outgoingRequests.request('session-1', 'elicitation/create', {}, { timeoutMs: 0 });
+    const second = outgoingRequests.request('session-2', 'elicitation/create', {}, { timeoutMs: 0 });
+
+    outgoingRequests.rejectAll('Agent disconnected', 'session-1');
+    await expect(first).rejects.toThrow("Request 'elicitation/create' failed: Agent disconnected");
+    expect(outgoingRequests.size()).toBe(1);
+
+    outgoingRequests.rejectAll('Connection closed');
+    await expect(second).rejects.toThrow("Request 'elicitation/create' failed: Connection closed");
+    expect(outgoingRequests.size()).toBe(0);
+  });
+});
\ No newline at end of file
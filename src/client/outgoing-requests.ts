@@ -0,0 +1,137 @@
+/**
+ * Snappjack SDK - Outgoing Requests
+ *
+ * Sends JSON-RPC requests from the app to an agent through the bridge and
+ * correlates the agent's responses with the waiting callers.
+ */
+
+import {
+  JsonRpcResponse,
+  OutgoingRequestMessage
+} from '../core/types';
+
+export interface OutgoingRequestOptions {
+  timeoutMs: number;  // 0 (or less) waits indefinitely
+  signal?: AbortSignal;  // Aborting rejects the request
+}
+
+interface PendingRequest {
+  method: string;
+  agentSessionId: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+export class OutgoingRequests {
+  private send: (message: OutgoingRequestMessage) => void;
+  private pending: Map<string, PendingRequest> = new Map();
+  private nextId = 1;
+
+  constructor(send: (message: OutgoingRequestMessage) => void) {
+    this.send = send;
+  }
+
+  /**
+   * Send a request to an agent session and wait for its result.
+   * Rejects on a JSON-RPC error (with its `code`), timeout, abort or send failure.
+   */
+  request<T = unknown>(
+    agentSessionId: string,
+    method: string,
+    params: { [key: string]: unknown },
+    options: OutgoingRequestOptions
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const { signal, timeoutMs } = options;
+      if (signal?.aborted) {
+        reject(new Error(`Request '${method}' was cancelled`));
+        return;
+      }
+
+      const id = `snappjack-${this.nextId++}`;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+
+      const onAbort = () => {
+        this.settle(id)?.reject(new Error(`Request '${method}' was cancelled`));
+      };
+
+      this.pending.set(id, {
+        method,
+        agentSessionId,
+        resolve: result => resolve(result as T),
+        reject,
+        cleanup: () => {
+          if (timer) {
+            clearTimeout(timer);
+          }
+          signal?.removeEventListener('abort', onAbort);
+        }
+      });
+
+      signal?.addEventListener('abort', onAbort);
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          this.settle(id)?.reject(new Error(`Request '${method}' timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+
+      try {
+        this.send({ jsonrpc: '2.0', id, method, params, agentSessionId });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.settle(id)?.reject(new Error(`Failed to send '${method}' request: ${errorMessage}`));
+      }
+    });
+  }
+
+  /**
+   * Deliver a response from an agent to the waiting request
+   * @returns Whether the response belonged to a pending request
+   */
+  handleResponse(response: JsonRpcResponse): boolean {
+    const request = this.pending.get(String(response.id));
+    if (!request || (response.agentSessionId && response.agentSessionId !== request.agentSessionId)) {
+      return false;
+    }
+
+    this.settle(String(response.id));
+    if (response.error) {
+      request.reject(Object.assign(new Error(response.error.message), { code: response.error.code }));
+    } else {
+      request.resolve(response.result);
+    }
+    return true;
+  }
+
+  /**
+   * Reject pending requests, optionally only those sent to one agent session
+   */
+  rejectAll(reason: string, agentSessionId?: string): void {
+    Array.from(this.pending.entries())
+      .filter(([, request]) => agentSessionId === undefined || request.agentSessionId === agentSessionId)
+      .forEach(([id, request]) => {
+        this.settle(id);
+        request.reject(new Error(`Request '${request.method}' failed: ${reason}`));
+      });
+  }
+
+  /**
+   * Number of requests still waiting for a response
+   */
+  size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Stop tracking a request and return it, or undefined if it already settled
+   */
+  private settle(id: string): PendingRequest | undefined {
+    const request = this.pending.get(id);
+    if (request) {
+      this.pending.delete(id);
+      request.cleanup();
+    }
+    return request;
+  }
+}
\ No newline at end of file
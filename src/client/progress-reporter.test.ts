@@ -0,0 +1,127 @@
+/**
+ * Unit tests for ProgressReporter
+ */
+
+import { ProgressReporter } from './progress-reporter';
+import { Logger } from '../core/types';
+
+// Mock logger for testing
+const mockLogger: Logger = {
+  log: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+};
+
+describe('ProgressReporter', () => {
+  let send: jest.Mock;
+  let reporter: ProgressReporter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    send = jest.fn();
+    reporter = new ProgressReporter(send, 'token-1', 'agent-session-1', 100, mockLogger);
+  });
+
+  afterEach(() => {
+    reporter.dispose();
+  });
+
+  describe('report()', () => {
+    it('should send an MCP progress notification', () => {
+      reporter.report(1, 10, 'Starting');
+
+      expect(send).toHaveBeenCalledWith({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: {
+          progressToken: 'token-1',
+          progress: 1,
+          total: 10,
+          message: 'Starting'
+        },
+        agentSessionId: 'agent-session-1'
+      });
+    });
+
+    it('should omit total and message when not provided', () => {
+      reporter.report(5);
+
+      expect(send.mock.calls[0][0].params).toEqual({ progressToken: 'token-1', progress: 5 });
+    });
+
+    it('should do nothing without a progress token', () => {
+      const noTokenReporter = new ProgressReporter(send, undefined, 'agent-session-1', 100, mockLogger);
+
+      noTokenReporter.report(1, 10);
+
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should ignore non-increasing progress values', () => {
+      reporter.report(5);
+      jest.advanceTimersByTime(100);
+      reporter.report(5);
+      reporter.report(3);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('non-increasing'));
+    });
+
+    it('should swallow send failures', () => {
+      send.mockImplementation(() => {
+        throw new Error('WebSocket is not connected');
+      });
+
+      expect(() => reporter.report(1)).not.toThrow();
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('WebSocket is not connected'));
+    });
+  });
+
+  describe('throttling', () => {
+    it('should coalesce rapid updates and send only the latest after the interval', () => {
+      reporter.report(1, 100);
+      reporter.report(2, 100);
+      reporter.report(3, 100);
+      reporter.report(4, 100);
+
+      expect(send).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(100);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0].params.progress).toBe(4);
+    });
+
+    it('should send immediately once the throttle interval has passed', () => {
+      reporter.report(1);
+      jest.advanceTimersByTime(150);
+      reporter.report(2);
+
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should always send the completing update immediately', () => {
+      reporter.report(1, 3);
+      reporter.report(2, 3);
+      reporter.report(3, 3);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0].params.progress).toBe(3);
+
+      jest.advanceTimersByTime(100);
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('dispose()', () => {
+    it('should drop pending updates and ignore further reports', () => {
+      reporter.report(1);
+      reporter.report(2);
+      reporter.dispose();
+      jest.advanceTimersByTime(100);
+      reporter.report(3);
+
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
\ No newline at end of file
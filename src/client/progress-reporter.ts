@@ -0,0 +1,115 @@
+/**
+ * Snappjack SDK - Progress Reporter
+ *
+ * Turns reportProgress() calls from a tool handler into throttled
+ * MCP notifications/progress messages for a single tool call.
+ */
+
+import {
+  ProgressNotificationMessage,
+  Logger
+} from '../core/types';
+
+export class ProgressReporter {
+  private send: (notification: ProgressNotificationMessage) => void;
+  private progressToken: string | number | undefined;
+  private agentSessionId: string;
+  private throttleMs: number;
+  private logger: Logger;
+  private lastProgress: number | null = null;
+  private lastSentAt = 0;
+  private pending: ProgressNotificationMessage | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor(
+    send: (notification: ProgressNotificationMessage) => void,
+    progressToken: string | number | undefined,
+    agentSessionId: string,
+    throttleMs: number,
+    logger: Logger
+  ) {
+    this.send = send;
+    this.progressToken = progressToken;
+    this.agentSessionId = agentSessionId;
+    this.throttleMs = throttleMs;
+    this.logger = logger;
+  }
+
+  /**
+   * Report progress for the tool call. Updates arriving faster than the throttle
+   * interval are coalesced so only the latest one is sent.
+   */
+  report(progress: number, total?: number, message?: string): void {
+    if (this.disposed || this.progressToken === undefined) {
+      return;
+    }
+
+    // MCP requires progress to increase with each notification
+    if (this.lastProgress !== null && progress <= this.lastProgress) {
+      this.logger.warn(`⚠️ ProgressReporter: Ignoring non-increasing progress ${progress} (last: ${this.lastProgress})`);
+      return;
+    }
+    this.lastProgress = progress;
+
+    const notification: ProgressNotificationMessage = {
+      jsonrpc: '2.0',
+      method: 'notifications/progress',
+      params: {
+        progressToken: this.progressToken,
+        progress,
+        ...(total !== undefined && { total }),
+        ...(message !== undefined && { message })
+      },
+      agentSessionId: this.agentSessionId
+    };
+
+    const isComplete = total !== undefined && progress >= total;
+    const elapsed = Date.now() - this.lastSentAt;
+
+    if (isComplete || elapsed >= this.throttleMs) {
+      this.clearTimer();
+      this.pending = null;
+      this.sendNow(notification);
+      return;
+    }
+
+    this.pending = notification;
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        if (this.pending) {
+          const latest = this.pending;
+          this.pending = null;
+          this.sendNow(latest);
+        }
+      }, this.throttleMs - elapsed);
+    }
+  }
+
+  /**
+   * Stop reporting: drops any throttled update and ignores further reports
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.pending = null;
+    this.clearTimer();
+  }
+
+  private sendNow(notification: ProgressNotificationMessage): void {
+    this.lastSentAt = Date.now();
+    try {
+      this.send(notification);
+    } catch (error) {
+      // Progress is best-effort; the tool result is what matters
+      this.logger.warn(`⚠️ ProgressReporter: Failed to send progress: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
\ No newline at end of file
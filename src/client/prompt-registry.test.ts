@@ -0,0 +1,69 @@
+/**
+ * Unit tests for PromptRegistry
+ */
+
+import { PromptRegistry } from './prompt-registry';
+import { Logger, Prompt } from '../core/types';
+
+describe('PromptRegistry', () => {
+  let promptRegistry: PromptRegistry;
+  const mockLogger: Logger = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  };
+
+  const summarizePrompt: Prompt = {
+    name: 'summarize_board',
+    description: 'Summarize the current board',
+    arguments: [
+      { name: 'boardId', required: true },
+      { name: 'tone' }
+    ],
+    handler: jest.fn()
+  };
+
+  beforeEach(() => {
+    promptRegistry = new PromptRegistry(mockLogger);
+  });
+
+  it('should list prompts without their handlers', () => {
+    promptRegistry.register(summarizePrompt);
+
+    expect(promptRegistry.getAll()).toEqual([{
+      name: 'summarize_board',
+      description: 'Summarize the current board',
+      arguments: [{ name: 'boardId', required: true }, { name: 'tone' }]
+    }]);
+    expect(promptRegistry.get('summarize_board')).toBe(summarizePrompt);
+    expect(promptRegistry.size()).toBe(1);
+  });
+
+  it('should replace a prompt registered with the same name', () => {
+    promptRegistry.register(summarizePrompt);
+    promptRegistry.register({ ...summarizePrompt, description: 'Short summary' });
+
+    expect(promptRegistry.getAll()).toHaveLength(1);
+    expect(promptRegistry.getAll()[0].description).toBe('Short summary');
+  });
+
+  it('should reject prompts without a handler', () => {
+    expect(() => promptRegistry.register({ name: 'broken' } as Prompt)).toThrow("Prompt 'broken' must have a handler");
+  });
+
+  it('should unregister prompts', () => {
+    promptRegistry.register(summarizePrompt);
+
+    expect(promptRegistry.unregister('summarize_board')).toBe(true);
+    expect(promptRegistry.unregister('summarize_board')).toBe(false);
+    expect(promptRegistry.size()).toBe(0);
+  });
+
+  it('should report missing required arguments', () => {
+    promptRegistry.register(summarizePrompt);
+
+    expect(promptRegistry.getMissingArguments('summarize_board', {})).toEqual(['boardId']);
+    expect(promptRegistry.getMissingArguments('summarize_board', { boardId: 'b1' })).toEqual([]);
+    expect(promptRegistry.getMissingArguments('unknown', {})).toEqual([]);
+  });
+});
\ No newline at end of file
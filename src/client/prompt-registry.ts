@@ -0,0 +1,69 @@
+/**
+ * Snappjack SDK - Prompt Registry
+ *
+ * Manages the prompt templates the app ships for agents.
+ */
+
+import {
+  Prompt,
+  PromptDefinition,
+  Logger
+} from '../core/types';
+
+export class PromptRegistry {
+  private prompts: Map<string, Prompt> = new Map();
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Register a prompt, replacing any prompt with the same name
+   */
+  register(prompt: Prompt): void {
+    if (typeof prompt.handler !== 'function') {
+      throw new Error(`Prompt '${prompt.name}' must have a handler`);
+    }
+    this.prompts.set(prompt.name, prompt);
+    this.logger.log(`💬 PromptRegistry: Registered prompt '${prompt.name}'`);
+  }
+
+  /**
+   * Remove a prompt
+   */
+  unregister(name: string): boolean {
+    return this.prompts.delete(name);
+  }
+
+  /**
+   * Get a registered prompt by name (including its handler)
+   */
+  get(name: string): Prompt | undefined {
+    return this.prompts.get(name);
+  }
+
+  /**
+   * Get all prompt definitions (without handlers)
+   */
+  getAll(): PromptDefinition[] {
+    return Array.from(this.prompts.values()).map(({ handler, ...definition }) => definition);
+  }
+
+  /**
+   * Names of required arguments a prompt request did not supply
+   */
+  getMissingArguments(name: string, args: { [name: string]: string }): string[] {
+    const prompt = this.prompts.get(name);
+    return (prompt?.arguments || [])
+      .filter(argument => argument.required && (args[argument.name] === undefined || args[argument.name] === null))
+      .map(argument => argument.name);
+  }
+
+  /**
+   * Number of registered prompts
+   */
+  size(): number {
+    return this.prompts.size;
+  }
+}
\ No newline at end of file
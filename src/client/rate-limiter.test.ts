@@ -0,0 +1,84 @@
+/**
+ * Unit tests for RateLimiter
+ */
+
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  let rateLimiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.setSystemTime(0);
+    rateLimiter = new RateLimiter();
+  });
+
+  it('should reject limits that cannot refill or throttle', () => {
+    expect(() => RateLimiter.validate({ calls: 0, windowMs: 1000 }, "tool 'search'"))
+      .toThrow("Invalid rateLimit for tool 'search': calls and windowMs must be positive numbers");
+    expect(() => RateLimiter.validate({ calls: 2, windowMs: -1 }, "tool 'search'"))
+      .toThrow("Invalid rateLimit for tool 'search': calls and windowMs must be positive numbers");
+    expect(() => RateLimiter.validate({ calls: 2, windowMs: Infinity }, "tool 'search'")).toThrow();
+    expect(() => RateLimiter.validate({ calls: 2, windowMs: 1000, burst: 0 }, "tool 'search'"))
+      .toThrow("Invalid rateLimit for tool 'search': burst must be at least 1");
+    expect(() => RateLimiter.validate({ calls: 2, windowMs: 1000, burst: 5 }, "tool 'search'")).not.toThrow();
+  });
+
+  it('should allow calls up to the limit and then ask the caller to wait', () => {
+    const limit = { calls: 2, windowMs: 1000 };
+
+    expect(rateLimiter.consume('session-1', 'search', limit)).toEqual({ allowed: true });
+    expect(rateLimiter.consume('session-1', 'search', limit)).toEqual({ allowed: true });
+    expect(rateLimiter.consume('session-1', 'search', limit)).toEqual({ allowed: false, retryAfterMs: 500 });
+  });
+
+  it('should refill tokens over time', () => {
+    const limit = { calls: 2, windowMs: 1000 };
+    rateLimiter.consume('session-1', 'search', limit);
+    rateLimiter.consume('session-1', 'search', limit);
+
+    jest.advanceTimersByTime(200);
+    expect(rateLimiter.consume('session-1', 'search', limit)).toEqual({ allowed: false, retryAfterMs: 300 });
+
+    jest.advanceTimersByTime(300);
+    expect(rateLimiter.consume('session-1', 'search', limit)).toEqual({ allowed: true });
+  });
+
+  it('should let burst exceed the steady rate', () => {
+    const limit = { calls: 1, windowMs: 1000, burst: 3 };
+
+    for (let i = 0; i < 3; i++) {
+      expect(rateLimiter.consume('session-1', 'search', limit).allowed).toBe(true);
+    }
+    expect(rateLimiter.consume('session-1', 'search', limit)).toEqual({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('should keep separate buckets per session and tool', () => {
+    const limit = { calls: 1, windowMs: 1000 };
+    rateLimiter.consume('session-1', 'search', limit);
+
+    expect(rateLimiter.consume('session-1', 'search', limit).allowed).toBe(false);
+    expect(rateLimiter.consume('session-2', 'search', limit).allowed).toBe(true);
+    expect(rateLimiter.consume('session-1', 'export', limit).allowed).toBe(true);
+  });
+
+  it('should start a fresh bucket when the limit changes', () => {
+    rateLimiter.consume('session-1', 'search', { calls: 1, windowMs: 1000 });
+
+    expect(rateLimiter.consume('session-1', 'search', { calls: 5, windowMs: 1000 }).allowed).toBe(true);
+  });
+
+  it('should forget buckets of cleared sessions', () => {
+    const limit = { calls: 1, windowMs: 60000 };
+    rateLimiter.consume('session-1', 'search', limit);
+    rateLimiter.consume('session-2', 'search', limit);
+
+    rateLimiter.clearSession('session-1');
+
+    expect(rateLimiter.consume('session-1', 'search', limit).allowed).toBe(true);
+    expect(rateLimiter.consume('session-2', 'search', limit).allowed).toBe(false);
+
+    rateLimiter.clear();
+
+    expect(rateLimiter.consume('session-2', 'search', limit).allowed).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * Snappjack SDK - Rate Limiter
+ *
+ * Token buckets that limit how often each agent session may call a tool.
+ */
+
+import { ToolRateLimit } from '../core/types';
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number };
+
+interface TokenBucket {
+  limit: ToolRateLimit;
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private buckets: Map<string, TokenBucket> = new Map();
+
+  /**
+   * Reject limits that would never refill or never throttle
+   * @param owner - What the limit belongs to, for the error message
+   */
+  static validate(limit: ToolRateLimit, owner: string): void {
+    const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+    if (!isPositive(limit.calls) || !isPositive(limit.windowMs)) {
+      throw new Error(`Invalid rateLimit for ${owner}: calls and windowMs must be positive numbers`);
+    }
+    if (limit.burst !== undefined && !(isPositive(limit.burst) && limit.burst >= 1)) {
+      throw new Error(`Invalid rateLimit for ${owner}: burst must be at least 1`);
+    }
+  }
+
+  /**
+   * Take a token for one call. Buckets start full with `burst` tokens (default:
+   * `calls`) and refill at `calls` tokens per `windowMs`.
+   */
+  consume(agentSessionId: string, toolName: string, limit: ToolRateLimit): RateLimitDecision {
+    const key = this.getBucketKey(agentSessionId, toolName);
+    const now = Date.now();
+    const capacity = limit.burst ?? limit.calls;
+    const refillPerMs = limit.calls / limit.windowMs;
+
+    let bucket = this.buckets.get(key);
+    if (!bucket || !this.isSameLimit(bucket.limit, limit)) {
+      // New caller, or the tool's limit changed since the bucket was created
+      bucket = { limit, tokens: capacity, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true };
+    }
+
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+  }
+
+  /**
+   * Forget the buckets of an agent session that went away
+   */
+  clearSession(agentSessionId: string): void {
+    const prefix = `${agentSessionId}:`;
+    Array.from(this.buckets.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.buckets.delete(key));
+  }
+
+  /**
+   * Forget all buckets
+   */
+  clear(): void {
+    this.buckets.clear();
+  }
+
+  private getBucketKey(agentSessionId: string, toolName: string): string {
+    return `${agentSessionId}:${toolName}`;
+  }
+
+  private isSameLimit(a: ToolRateLimit, b: ToolRateLimit): boolean {
+    return a.calls === b.calls && a.windowMs === b.windowMs && a.burst === b.burst;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for ResourceRegistry
+ */
+
+import { ResourceRegistry } from './resource-registry';
+import { Logger, Resource, ResourceTemplate } from '../core/types';
+
+describe('ResourceRegistry', () => {
+  let resourceRegistry: ResourceRegistry;
+  const mockLogger: Logger = {
+    log: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  };
+
+  const documentResource: Resource = {
+    uri: 'app://document/current',
+    name: 'Current document',
+    mimeType: 'text/markdown',
+    handler: jest.fn()
+  };
+
+  const documentTemplate: ResourceTemplate = {
+    uriTemplate: 'app://documents/{id}',
+    name: 'Document by ID',
+    handler: jest.fn()
+  };
+
+  beforeEach(() => {
+    resourceRegistry = new ResourceRegistry(mockLogger);
+  });
+
+  describe('register()', () => {
+    it('should list resources and templates without their handlers', () => {
+      resourceRegistry.register(documentResource);
+      resourceRegistry.registerTemplate(documentTemplate);
+
+      expect(resourceRegistry.getAll()).toEqual([
+        { uri: 'app://document/current', name: 'Current document', mimeType: 'text/markdown' }
+      ]);
+      expect(resourceRegistry.getTemplates()).toEqual([
+        { uriTemplate: 'app://documents/{id}', name: 'Document by ID' }
+      ]);
+      expect(resourceRegistry.size()).toBe(2);
+    });
+
+    it('should replace a resource registered with the same URI', () => {
+      resourceRegistry.register(documentResource);
+      resourceRegistry.register({ ...documentResource, name: 'Open document' });
+
+      expect(resourceRegistry.getAll()).toHaveLength(1);
+      expect(resourceRegistry.getAll()[0].name).toBe('Open document');
+    });
+
+    it('should reject resources without a handler', () => {
+      expect(() => resourceRegistry.register({ uri: 'app://x', name: 'x' } as Resource))
+        .toThrow("Resource 'app://x' must have a handler");
+      expect(() => resourceRegistry.registerTemplate({ uriTemplate: 'app://{x}', name: 'x' } as ResourceTemplate))
+        .toThrow("Resource template 'app://{x}' must have a handler");
+    });
+  });
+
+  describe('unregister()', () => {
+    it('should remove resources and templates', () => {
+      resourceRegistry.register(documentResource);
+      resourceRegistry.registerTemplate(documentTemplate);
+
+      expect(resourceRegistry.unregister('app://document/current')).toBe(true);
+      expect(resourceRegistry.unregisterTemplate('app://documents/{id}')).toBe(true);
+      expect(resourceRegistry.unregister('app://document/current')).toBe(false);
+      expect(resourceRegistry.size()).toBe(0);
+    });
+  });
+
+  describe('resolve()', () => {
+    it('should resolve exact resource URIs', () => {
+      resourceRegistry.register(documentResource);
+
+      expect(resourceRegistry.resolve('app://document/current')).toEqual({
+        handler: documentResource.handler,
+        variables: {}
+      });
+    });
+
+    it('should match templates and decode their variables', () => {
+      resourceRegistry.registerTemplate(documentTemplate);
+
+      expect(resourceRegistry.resolve('app://documents/q3%20plan')).toEqual({
+        handler: documentTemplate.handler,
+        variables: { id: 'q3 plan' }
+      });
+    });
+
+    it('should keep simple variables within one path segment', () => {
+      resourceRegistry.registerTemplate(documentTemplate);
+
+      expect(resourceRegistry.resolve('app://documents/a/b')).toBeUndefined();
+    });
+
+    it('should let reserved expansion span slashes', () => {
+      const fileTemplate: ResourceTemplate = { uriTemplate: 'file:///{+path}', name: 'File', handler: jest.fn() };
+      resourceRegistry.registerTemplate(fileTemplate);
+
+      expect(resourceRegistry.resolve('file:///src/index.ts')?.variables).toEqual({ path: 'src/index.ts' });
+    });
+
+    it('should treat regex characters in templates literally', () => {
+      resourceRegistry.registerTemplate({ uriTemplate: 'app://search?q={query}', name: 'Search', handler: jest.fn() });
+
+      expect(resourceRegistry.resolve('app://search?q=budget')?.variables).toEqual({ query: 'budget' });
+      expect(resourceRegistry.resolve('app://searchXq=budget')).toBeUndefined();
+    });
+
+    it('should prefer exact resources over templates', () => {
+      const latest: Resource = { uri: 'app://documents/latest', name: 'Latest', handler: jest.fn() };
+      resourceRegistry.registerTemplate(documentTemplate);
+      resourceRegistry.register(latest);
+
+      expect(resourceRegistry.resolve('app://documents/latest')?.handler).toBe(latest.handler);
+    });
+
+    it('should return undefined for unknown URIs', () => {
+      expect(resourceRegistry.resolve('app://nothing')).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,148 @@
+/**
+ * Snappjack SDK - Resource Registry
+ *
+ * Manages resources and resource templates the app exposes to agents,
+ * and resolves resource URIs to their read handlers.
+ */
+
+import {
+  Resource,
+  ResourceTemplate,
+  ResourceDefinition,
+  ResourceTemplateDefinition,
+  ResourceHandler,
+  Logger
+} from '../core/types';
+
+interface CompiledTemplate {
+  template: ResourceTemplate;
+  pattern: RegExp;
+  variableNames: string[];
+}
+
+export interface ResolvedResource {
+  handler: ResourceHandler;
+  variables: { [name: string]: string };
+}
+
+export class ResourceRegistry {
+  private resources: Map<string, Resource> = new Map();
+  private templates: Map<string, CompiledTemplate> = new Map();
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Register a resource, replacing any resource with the same URI
+   */
+  register(resource: Resource): void {
+    if (typeof resource.handler !== 'function') {
+      throw new Error(`Resource '${resource.uri}' must have a handler`);
+    }
+    this.resources.set(resource.uri, resource);
+    this.logger.log(`📄 ResourceRegistry: Registered resource '${resource.uri}'`);
+  }
+
+  /**
+   * Register a resource template, replacing any template with the same uriTemplate
+   */
+  registerTemplate(template: ResourceTemplate): void {
+    if (typeof template.handler !== 'function') {
+      throw new Error(`Resource template '${template.uriTemplate}' must have a handler`);
+    }
+    this.templates.set(template.uriTemplate, { template, ...this.compileTemplate(template.uriTemplate) });
+    this.logger.log(`📄 ResourceRegistry: Registered resource template '${template.uriTemplate}'`);
+  }
+
+  /**
+   * Remove a resource
+   */
+  unregister(uri: string): boolean {
+    return this.resources.delete(uri);
+  }
+
+  /**
+   * Remove a resource template
+   */
+  unregisterTemplate(uriTemplate: string): boolean {
+    return this.templates.delete(uriTemplate);
+  }
+
+  /**
+   * Get all resource definitions (without handlers)
+   */
+  getAll(): ResourceDefinition[] {
+    return Array.from(this.resources.values()).map(({ handler, ...definition }) => definition);
+  }
+
+  /**
+   * Get all resource template definitions (without handlers)
+   */
+  getTemplates(): ResourceTemplateDefinition[] {
+    return Array.from(this.templates.values()).map(({ template: { handler, ...definition } }) => definition);
+  }
+
+  /**
+   * Find the handler for a URI: an exact resource first, then templates in registration order
+   */
+  resolve(uri: string): ResolvedResource | undefined {
+    const resource = this.resources.get(uri);
+    if (resource) {
+      return { handler: resource.handler, variables: {} };
+    }
+
+    for (const { template, pattern, variableNames } of this.templates.values()) {
+      const match = pattern.exec(uri);
+      if (match) {
+        const variables: { [name: string]: string } = {};
+        variableNames.forEach((name, index) => {
+          variables[name] = this.decode(match[index + 1]);
+        });
+        return { handler: template.handler, variables };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Number of registered resources and templates
+   */
+  size(): number {
+    return this.resources.size + this.templates.size;
+  }
+
+  /**
+   * Turn an RFC 6570 template into a matcher. {var} matches one path segment,
+   * {+var} matches anything including slashes.
+   */
+  private compileTemplate(uriTemplate: string): { pattern: RegExp; variableNames: string[] } {
+    const variableNames: string[] = [];
+    let source = '';
+    let lastIndex = 0;
+
+    for (const match of uriTemplate.matchAll(/\{(\+?)([^}]+)\}/g)) {
+      source += this.escapeRegExp(uriTemplate.slice(lastIndex, match.index));
+      source += match[1] === '+' ? '(.+)' : '([^/?#]+)';
+      variableNames.push(match[2]);
+      lastIndex = match.index! + match[0].length;
+    }
+    source += this.escapeRegExp(uriTemplate.slice(lastIndex));
+
+    return { pattern: new RegExp(`^${source}$`), variableNames };
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private decode(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+}
\ No newline at end of file
@@ -6,6 +6,7 @@
 import { Snappjack } from './snappjack-client';
 import { ConnectionManager } from './connection-manager';
 import { ToolRegistry } from './tool-registry';
+import { EventEmitter } from '../core/event-emitter';
 import {
   SnappjackConfig,
   Logger,
@@ -14,7 +15,17 @@ import {
   ToolResponse,
   AgentMessage,
   ConnectionData,
-  SnappjackStatus
+  SnappjackStatus,
+  ToolMiddleware,
+  Resource,
+  Prompt,
+  ElicitationSchema,
+  ElicitResult,
+  OutgoingRequestMessage,
+  CreateMessageRequest,
+  CreateMessageResult,
+  LoggingLevel,
+  LoggingMessageNotification
 } from '../core/types';
 
 // Mock dependencies
@@ -75,6 +86,7 @@ describe('SnappjackClient', () => {
       getStatus: jest.fn().mockReturnValue('disconnected' as SnappjackStatus),
       send: jest.fn(),
       on: jest.fn(),
+      off: jest.fn(),
       emit: jest.fn(),
       updateStatus: jest.fn()
     } as any;
@@ -84,9 +96,16 @@ describe('SnappjackClient', () => {
       has: jest.fn().mockReturnValue(true),
       get: jest.fn(),
       getAll: jest.fn().mockReturnValue([]),
+      getEnabled: jest.fn().mockReturnValue([]),
+      isEnabled: jest.fn().mockReturnValue(true),
+      setEnabled: jest.fn().mockReturnValue(true),
       validate: jest.fn().mockReturnValue({ isValid: true }),
+      validateOutput: jest.fn().mockReturnValue({ isValid: true }),
       setHandler: jest.fn(),
-      getHandler: jest.fn()
+      getHandler: jest.fn(),
+      getDefinition: jest.fn(),
+      unregister: jest.fn(),
+      clear: jest.fn()
     } as any;
 
     // Mock the constructors
@@ -109,6 +128,14 @@ describe('SnappjackClient', () => {
     agentSessionId: 'agent-session-123'
   });
 
+  // Build a client with extra config and capture the message handler it registered
+  const createConfiguredClient = (config: Partial<SnappjackConfig> = {}) => {
+    const client = new Snappjack({ ...validConfig, ...config });
+    const handler = (mockConnectionManager.on as jest.Mock).mock.calls
+      .filter(call => call[0] === 'message').pop()[1];
+    return { client, handler };
+  };
+
   describe('1. Constructor & Configuration', () => {
     it('should create instance with valid configuration', () => {
       const client = new Snappjack(validConfig);
@@ -197,6 +224,18 @@ describe('SnappjackClient', () => {
       );
     });
 
+    it('should pass heartbeat settings to ConnectionManager', () => {
+      new Snappjack({ ...validConfig, heartbeatInterval: 15000 });
+
+      expect(ConnectionManager).toHaveBeenCalledWith(
+        expect.objectContaining({
+          heartbeatInterval: 15000,
+          maxMissedHeartbeats: 2 // default
+        }),
+        expect.any(Object)
+      );
+    });
+
     it('should filter out undefined values from user config', () => {
       const configWithUndefined = {
         ...validConfig,
@@ -376,6 +415,407 @@ describe('SnappjackClient', () => {
         );
       });
     });
+
+    describe('runtime tool changes', () => {
+      let messageHandler: (message: any) => void;
+      let openHandler: () => void;
+      const mockTools = [{ name: 'tool1', inputSchema: { type: 'object' as const } }];
+
+      const sentMessages = () => mockConnectionManager.send.mock.calls.map(([message]) => message as any);
+
+      beforeEach(() => {
+        const onCalls = (mockConnectionManager.on as jest.Mock).mock.calls;
+        messageHandler = onCalls.find(call => call[0] === 'message')[1];
+        openHandler = onCalls.find(call => call[0] === 'open')[1];
+        mockToolRegistry.getEnabled.mockReturnValue(mockTools);
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+      });
+
+      it('should not announce tools added before connecting', () => {
+        mockConnectionManager.getStatus.mockReturnValue('disconnected');
+
+        client.registerTool(sampleTool);
+        jest.advanceTimersByTime(1000);
+
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should re-send tools-registration and notify agents when a tool is added while connected', () => {
+        client.registerTool(sampleTool);
+        jest.advanceTimersByTime(50);
+
+        expect(sentMessages()).toEqual([
+          { type: 'tools-registration', tools: mockTools },
+          { jsonrpc: '2.0', method: 'notifications/tools/list_changed', agentSessionId: 'agent-a' },
+          { jsonrpc: '2.0', method: 'notifications/tools/list_changed', agentSessionId: 'agent-b' }
+        ]);
+      });
+
+      it('should debounce bursts of changes into a single registration', () => {
+        mockToolRegistry.unregister.mockReturnValue(true);
+        mockToolRegistry.has.mockReturnValue(true);
+
+        client.registerTool(sampleTool);
+        client.replaceTool(sampleTool);
+        client.unregisterTool('test-tool');
+        jest.advanceTimersByTime(50);
+
+        const registrations = sentMessages().filter(message => message.type === 'tools-registration');
+        expect(registrations).toHaveLength(1);
+      });
+
+      it('should unregister tools and report whether they existed', () => {
+        mockToolRegistry.unregister.mockReturnValueOnce(true).mockReturnValueOnce(false);
+
+        expect(client.unregisterTool('test-tool')).toBe(true);
+        expect(client.unregisterTool('test-tool')).toBe(false);
+        expect(mockToolRegistry.unregister).toHaveBeenCalledWith('test-tool');
+      });
+
+      it('should not announce anything when unregistering an unknown tool', () => {
+        mockToolRegistry.unregister.mockReturnValue(false);
+
+        client.unregisterTool('unknown');
+        jest.advanceTimersByTime(50);
+
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should replace registered tools including their handler', () => {
+        mockToolRegistry.has.mockReturnValue(true);
+        const newHandler = jest.fn();
+
+        client.replaceTool({ ...sampleTool, handler: newHandler });
+
+        expect(mockToolRegistry.register).toHaveBeenCalledWith(expect.objectContaining({ handler: newHandler }));
+        expect(mockToolRegistry.setHandler).toHaveBeenCalledWith('test-tool', newHandler);
+      });
+
+      it('should refuse to replace a tool that is not registered', () => {
+        mockToolRegistry.has.mockReturnValue(false);
+
+        expect(() => client.replaceTool(sampleTool))
+          .toThrow("Cannot replace tool 'test-tool': tool is not registered");
+      });
+
+      it('should swap the whole tool set with setTools()', () => {
+        const otherTool: Tool = { name: 'other-tool', inputSchema: { type: 'object' } };
+
+        client.setTools([sampleTool, otherTool]);
+        jest.advanceTimersByTime(50);
+
+        expect(mockToolRegistry.clear).toHaveBeenCalled();
+        expect(mockToolRegistry.register).toHaveBeenCalledWith(sampleTool);
+        expect(mockToolRegistry.register).toHaveBeenCalledWith(otherTool);
+        expect(sentMessages().filter(message => message.type === 'tools-registration')).toHaveLength(1);
+      });
+
+      it('should re-announce tools when a tool is enabled or disabled', () => {
+        client.setToolEnabled('test-tool', false);
+        jest.advanceTimersByTime(50);
+
+        expect(mockToolRegistry.setEnabled).toHaveBeenCalledWith('test-tool', false);
+        expect(sentMessages().filter(message => message.type === 'tools-registration')).toHaveLength(1);
+      });
+
+      it('should refuse to toggle a tool that is not registered', () => {
+        mockToolRegistry.setEnabled.mockReturnValue(false);
+
+        expect(() => client.setToolEnabled('unknown', true))
+          .toThrow("Cannot enable tool 'unknown': tool is not registered");
+      });
+
+      it('should re-announce tools on refreshTools()', () => {
+        client.refreshTools();
+        jest.advanceTimersByTime(50);
+
+        expect(sentMessages().filter(message => message.type === 'tools-registration')).toHaveLength(1);
+      });
+
+      it('should drop a pending update when the socket reopens', () => {
+        client.registerTool(sampleTool);
+        openHandler();
+        jest.advanceTimersByTime(50);
+
+        expect(sentMessages().filter(message => message.type === 'tools-registration')).toHaveLength(1);
+      });
+    });
+
+    describe('resources', () => {
+      let messageHandler: (message: any) => void;
+      const readHandler = jest.fn();
+      const documentResource: Resource = {
+        uri: 'app://document/current',
+        name: 'Current document',
+        mimeType: 'text/markdown',
+        handler: readHandler
+      };
+
+      const sentMessages = () => mockConnectionManager.send.mock.calls.map(([message]) => message as any);
+      const readRequest = (uri: unknown) => ({
+        jsonrpc: '2.0',
+        id: 'req-1',
+        method: 'resources/read',
+        params: { uri },
+        agentSessionId: 'agent-a'
+      });
+
+      beforeEach(() => {
+        messageHandler = (mockConnectionManager.on as jest.Mock).mock.calls.find(call => call[0] === 'message')[1];
+        readHandler.mockResolvedValue({
+          contents: [{ uri: 'app://document/current', mimeType: 'text/markdown', text: '# Plan' }]
+        });
+      });
+
+      it('should include resources in the tools-registration message and notify agents', () => {
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        client.registerResource(documentResource);
+        client.registerResourceTemplate({ uriTemplate: 'app://documents/{id}', name: 'Document', handler: readHandler });
+        jest.advanceTimersByTime(50);
+
+        expect(sentMessages()).toEqual([
+          {
+            type: 'tools-registration',
+            tools: [],
+            resources: [{ uri: 'app://document/current', name: 'Current document', mimeType: 'text/markdown' }],
+            resourceTemplates: [{ uriTemplate: 'app://documents/{id}', name: 'Document' }]
+          },
+          { jsonrpc: '2.0', method: 'notifications/resources/list_changed', agentSessionId: 'agent-a' }
+        ]);
+      });
+
+      it('should list resources and templates', async () => {
+        client.registerResource(documentResource);
+
+        messageHandler({ jsonrpc: '2.0', id: 'req-1', method: 'resources/list', agentSessionId: 'agent-a' });
+        messageHandler({ jsonrpc: '2.0', id: 'req-2', method: 'resources/templates/list', agentSessionId: 'agent-a' });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          result: { resources: [{ uri: 'app://document/current', name: 'Current document', mimeType: 'text/markdown' }] }
+        }));
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-2',
+          result: { resourceTemplates: [] }
+        }));
+      });
+
+      it('should read resources through their handler', async () => {
+        client.registerResource(documentResource);
+
+        messageHandler(readRequest('app://document/current'));
+        await flushPromiseQueue();
+
+        expect(readHandler).toHaveBeenCalledWith('app://document/current', {
+          requestId: 'req-1',
+          agentSessionId: 'agent-a',
+          variables: {}
+        });
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'req-1',
+          result: { contents: [{ uri: 'app://document/current', mimeType: 'text/markdown', text: '# Plan' }] },
+          agentSessionId: 'agent-a'
+        });
+      });
+
+      it('should pass template variables to the handler', async () => {
+        client.registerResourceTemplate({ uriTemplate: 'app://documents/{id}', name: 'Document', handler: readHandler });
+
+        messageHandler(readRequest('app://documents/42'));
+        await flushPromiseQueue();
+
+        expect(readHandler).toHaveBeenCalledWith('app://documents/42', expect.objectContaining({ variables: { id: '42' } }));
+      });
+
+      it('should answer unknown resources and missing URIs with JSON-RPC errors', async () => {
+        messageHandler(readRequest('app://missing'));
+        await flushPromiseQueue();
+        messageHandler({ ...readRequest(undefined), id: 'req-2' });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          error: { code: -32002, message: 'Resource not found: app://missing' }
+        }));
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-2',
+          error: { code: -32602, message: 'resources/read requires params.uri' }
+        }));
+      });
+
+      it('should reject handler results without contents', async () => {
+        readHandler.mockResolvedValue({ text: 'not wrapped' });
+        client.registerResource(documentResource);
+
+        messageHandler(readRequest('app://document/current'));
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          error: {
+            code: -32603,
+            message: 'Internal error',
+            data: "Resource handler for 'app://document/current' returned invalid result format"
+          }
+        }));
+      });
+
+      it('should send resources/updated to attached agents when a resource changes', () => {
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        client.notifyResourceChanged('app://document/current');
+
+        expect(sentMessages()).toEqual([
+          { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'app://document/current' }, agentSessionId: 'agent-a' },
+          { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'app://document/current' }, agentSessionId: 'agent-b' }
+        ]);
+      });
+
+      it('should unregister resources and templates', () => {
+        client.registerResource(documentResource);
+        client.registerResourceTemplate({ uriTemplate: 'app://documents/{id}', name: 'Document', handler: readHandler });
+
+        expect(client.unregisterResource('app://document/current')).toBe(true);
+        expect(client.unregisterResourceTemplate('app://documents/{id}')).toBe(true);
+        expect(client.getResources()).toEqual([]);
+        expect(client.getResourceTemplates()).toEqual([]);
+      });
+
+      it('should send empty resource lists after the last resource is unregistered', () => {
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+
+        client.registerResource(documentResource);
+        jest.advanceTimersByTime(50);
+        client.unregisterResource('app://document/current');
+        jest.advanceTimersByTime(50);
+
+        const registrations = sentMessages().filter(message => message.type === 'tools-registration');
+        expect(registrations).toHaveLength(2);
+        expect(registrations[1]).toEqual({ type: 'tools-registration', tools: [], resources: [], resourceTemplates: [] });
+      });
+    });
+
+    describe('prompts', () => {
+      let messageHandler: (message: any) => void;
+      const promptHandler = jest.fn();
+      const summarizePrompt: Prompt = {
+        name: 'summarize_board',
+        description: 'Summarize the current board',
+        arguments: [{ name: 'boardId', required: true }],
+        handler: promptHandler
+      };
+
+      const sentMessages = () => mockConnectionManager.send.mock.calls.map(([message]) => message as any);
+      const getRequest = (params: unknown) => ({
+        jsonrpc: '2.0',
+        id: 'req-1',
+        method: 'prompts/get',
+        params,
+        agentSessionId: 'agent-a'
+      });
+
+      beforeEach(() => {
+        messageHandler = (mockConnectionManager.on as jest.Mock).mock.calls.find(call => call[0] === 'message')[1];
+        promptHandler.mockResolvedValue({
+          messages: [{ role: 'user', content: { type: 'text', text: 'Summarize board b1' } }]
+        });
+      });
+
+      it('should include prompts in the tools-registration message and notify agents', () => {
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        client.registerPrompt(summarizePrompt);
+        jest.advanceTimersByTime(50);
+
+        expect(sentMessages()).toEqual([
+          {
+            type: 'tools-registration',
+            tools: [],
+            prompts: [{
+              name: 'summarize_board',
+              description: 'Summarize the current board',
+              arguments: [{ name: 'boardId', required: true }]
+            }]
+          },
+          { jsonrpc: '2.0', method: 'notifications/prompts/list_changed', agentSessionId: 'agent-a' }
+        ]);
+      });
+
+      it('should list prompts', async () => {
+        client.registerPrompt(summarizePrompt);
+
+        messageHandler({ jsonrpc: '2.0', id: 'req-1', method: 'prompts/list', agentSessionId: 'agent-a' });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          result: { prompts: client.getPrompts() }
+        }));
+      });
+
+      it('should fill in prompts through their handler', async () => {
+        client.registerPrompt(summarizePrompt);
+
+        messageHandler(getRequest({ name: 'summarize_board', arguments: { boardId: 'b1' } }));
+        await flushPromiseQueue();
+
+        expect(promptHandler).toHaveBeenCalledWith({ boardId: 'b1' }, { requestId: 'req-1', agentSessionId: 'agent-a' });
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'req-1',
+          result: { messages: [{ role: 'user', content: { type: 'text', text: 'Summarize board b1' } }] },
+          agentSessionId: 'agent-a'
+        });
+      });
+
+      it('should answer unknown prompts and missing arguments with Invalid params', async () => {
+        client.registerPrompt(summarizePrompt);
+
+        messageHandler(getRequest({ name: 'unknown' }));
+        await flushPromiseQueue();
+        messageHandler({ ...getRequest({ name: 'summarize_board' }), id: 'req-2' });
+        await flushPromiseQueue();
+
+        expect(promptHandler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          error: { code: -32602, message: 'Unknown prompt: unknown' }
+        }));
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-2',
+          error: { code: -32602, message: "Missing required arguments for prompt 'summarize_board': boardId" }
+        }));
+      });
+
+      it('should unregister prompts', () => {
+        client.registerPrompt(summarizePrompt);
+
+        expect(client.unregisterPrompt('summarize_board')).toBe(true);
+        expect(client.unregisterPrompt('summarize_board')).toBe(false);
+        expect(client.getPrompts()).toEqual([]);
+      });
+
+      it('should send an empty prompt list after the last prompt is unregistered', () => {
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+
+        client.registerPrompt(summarizePrompt);
+        jest.advanceTimersByTime(50);
+        client.unregisterPrompt('summarize_board');
+        jest.advanceTimersByTime(50);
+
+        const registrations = sentMessages().filter(message => message.type === 'tools-registration');
+        expect(registrations).toHaveLength(2);
+        expect(registrations[1]).toEqual({ type: 'tools-registration', tools: [], prompts: [] });
+      });
+    });
   });
 
   describe('4. Connection Lifecycle', () => {
@@ -448,7 +888,14 @@ describe('SnappjackClient', () => {
         expect(mockToolRegistry.validate).toHaveBeenCalledWith('test-tool', { message: 'test' });
         expect(sampleTool.handler).toHaveBeenCalledWith(
           { message: 'test' },
-          toolCallMessage
+          toolCallMessage,
+          {
+            signal: expect.any(AbortSignal),
+            requestId: 'test-id-123',
+            agentSessionId: 'agent-session-123',
+            reportProgress: expect.any(Function),
+            elicit: expect.any(Function)
+          }
         );
         expect(mockConnectionManager.send).toHaveBeenCalledWith({
           jsonrpc: '2.0',
@@ -592,68 +1039,1600 @@ describe('SnappjackClient', () => {
       });
     });
 
-    describe('agent message handling', () => {
-      it('should handle agent-connected message', () => {
-        const agentConnectedMessage: AgentMessage = {
-          type: 'agent-connected',
-          agentSessionId: 'agent-123'
-        };
+    describe('disabled tools', () => {
+      it('should answer calls to disabled tools as currently unavailable', async () => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.getHandler.mockReturnValue(sampleTool.handler);
+        mockToolRegistry.isEnabled.mockReturnValue(false);
 
-        const emitSpy = jest.spyOn(client, 'emit');
-        messageHandler(agentConnectedMessage);
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
 
-        expect(emitSpy).toHaveBeenCalledWith('agent-connected', { agentSessionId: 'agent-123' });
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-123',
+          result: {
+            content: [{
+              type: 'text',
+              text: "Tool 'test-tool' is currently unavailable in the app's current state. Try again later or use a different tool."
+            }],
+            isError: true
+          },
+          agentSessionId: 'agent-session-123'
+        });
       });
+    });
 
-      it('should handle agent-disconnected message', () => {
-        const agentDisconnectedMessage: AgentMessage = {
-          type: 'agent-disconnected',
-          agentSessionId: 'agent-123'
-        };
+    describe('tool timeouts', () => {
+      const hangingHandler = () => jest.fn().mockReturnValue(new Promise(() => {}));
 
-        const emitSpy = jest.spyOn(client, 'emit');
-        messageHandler(agentDisconnectedMessage);
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+      });
 
-        expect(emitSpy).toHaveBeenCalledWith('agent-disconnected', { agentSessionId: 'agent-123' });
+      it('should answer with an isError result when the tool timeoutMs expires', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(hangingHandler());
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, timeoutMs: 1000 });
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        jest.advanceTimersByTime(999);
+        await flushPromiseQueue();
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-123',
+          result: {
+            content: [{
+              type: 'text',
+              text: "Tool 'test-tool' timed out after 1000ms"
+            }],
+            isError: true
+          },
+          agentSessionId: 'agent-session-123'
+        });
       });
-    });
 
-    describe('connection-info message handling', () => {
-      it('should handle connection-info message and emit user-api-key-generated', () => {
-        const connectionInfoMessage = {
-          type: 'connection-info',
-          userApiKey: 'uak_test12345'
-        };
+      it('should emit tool-timeout event', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(hangingHandler());
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, timeoutMs: 500 });
+        const timeoutListener = jest.fn();
+        client.on('tool-timeout', timeoutListener);
 
-        const emitSpy = jest.spyOn(client, 'emit');
-        messageHandler(connectionInfoMessage);
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(500);
+        await flushPromiseQueue();
 
-        expect(emitSpy).toHaveBeenCalledWith('user-api-key-generated', {
-          userApiKey: 'uak_test12345',
-          snappId: 'test-snapp',
-          userId: 'test-user',
-          mcpEndpoint: 'http://localhost:3000/mcp/test-snapp/test-user',
-          requireAuthHeader: true
+        expect(timeoutListener).toHaveBeenCalledWith({
+          toolName: 'test-tool',
+          requestId: 'test-id-123',
+          agentSessionId: 'agent-session-123',
+          timeoutMs: 500
         });
       });
 
-      it('should handle connection-info message without userApiKey', () => {
-        const connectionInfoMessage = {
-          type: 'connection-info'
-        };
+      it('should fall back to defaultToolTimeoutMs from config', async () => {
+        const { client: configuredClient, handler: configuredHandler } = createConfiguredClient({ defaultToolTimeoutMs: 2000 });
+        mockToolRegistry.getHandler.mockReturnValue(hangingHandler());
+        mockToolRegistry.get.mockReturnValue(undefined);
+        const timeoutListener = jest.fn();
+        configuredClient.on('tool-timeout', timeoutListener);
 
-        const emitSpy = jest.spyOn(client, 'emit');
-        messageHandler(connectionInfoMessage);
+        configuredHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(2000);
+        await flushPromiseQueue();
 
-        expect(emitSpy).not.toHaveBeenCalledWith('user-api-key-generated', expect.anything());
+        expect(timeoutListener).toHaveBeenCalledWith(expect.objectContaining({ timeoutMs: 2000 }));
       });
 
-      it('should convert WSS server URL to HTTPS for MCP endpoint', () => {
-        const configWithWss = {
-          ...validConfig,
-          serverUrl: 'https://secure-server.com'
-        };
-        const clientWithWss = new Snappjack(configWithWss);
+      it('should wait indefinitely when timeout is 0', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(hangingHandler());
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, timeoutMs: 0 });
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should not send a second response when the handler finishes after timing out', async () => {
+        let resolveHandler: (value: ToolResponse) => void = () => {};
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockReturnValue(new Promise<ToolResponse>(resolve => { resolveHandler = resolve; }))
+        );
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, timeoutMs: 100 });
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(100);
+        await flushPromiseQueue();
+
+        resolveHandler({ content: [{ type: 'text', text: 'late' }] });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('tool call cancellation', () => {
+      let capturedSignals: AbortSignal[];
+      let resolvers: Array<(value: ToolResponse) => void>;
+
+      const createCallMessage = (id: string, agentSessionId: string): ToolCallMessage => ({
+        ...createMockToolCallMessage(),
+        id,
+        agentSessionId
+      });
+
+      beforeEach(() => {
+        capturedSignals = [];
+        resolvers = [];
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation((_args, _message, context) => {
+            capturedSignals.push(context.signal);
+            return new Promise<ToolResponse>(resolve => resolvers.push(resolve));
+          })
+        );
+      });
+
+      it('should abort the handler signal on notifications/cancelled and suppress the late response', async () => {
+        const cancelledListener = jest.fn();
+        client.on('tool-cancelled', cancelledListener);
+
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        await flushPromiseQueue();
+
+        messageHandler({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 'call-1', reason: 'User pressed stop' },
+          agentSessionId: 'agent-a'
+        });
+        await flushPromiseQueue();
+
+        expect(capturedSignals[0].aborted).toBe(true);
+        expect(cancelledListener).toHaveBeenCalledWith({
+          toolName: 'test-tool',
+          requestId: 'call-1',
+          agentSessionId: 'agent-a',
+          reason: 'User pressed stop'
+        });
+
+        resolvers[0]({ content: [{ type: 'text', text: 'too late' }] });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should suppress errors thrown by a handler after cancellation', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation((_args, _message, context) =>
+            new Promise((_resolve, reject) => {
+              context.signal.addEventListener('abort', () => reject(new Error('aborted')));
+            })
+          )
+        );
+
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        await flushPromiseQueue();
+        messageHandler({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 'call-1' },
+          agentSessionId: 'agent-a'
+        });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should only cancel the matching session when request ids collide', async () => {
+        messageHandler(createCallMessage('1', 'agent-a'));
+        messageHandler(createCallMessage('1', 'agent-b'));
+        await flushPromiseQueue();
+
+        messageHandler({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: '1' },
+          agentSessionId: 'agent-b'
+        });
+
+        expect(capturedSignals[0].aborted).toBe(false);
+        expect(capturedSignals[1].aborted).toBe(true);
+      });
+
+      it('should ignore cancellation of unknown requests', () => {
+        expect(() => messageHandler({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 'unknown' },
+          agentSessionId: 'agent-a'
+        })).not.toThrow();
+      });
+
+      it('should cancel only the disconnected agent calls on agent-disconnected', async () => {
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        messageHandler(createCallMessage('call-2', 'agent-b'));
+        await flushPromiseQueue();
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-a' });
+
+        expect(capturedSignals[0].aborted).toBe(true);
+        expect(capturedSignals[1].aborted).toBe(false);
+      });
+
+      it('should cancel all calls when the socket closes', async () => {
+        const closeHandler = (mockConnectionManager.on as jest.Mock).mock.calls
+          .find(call => call[0] === 'close')[1];
+
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        messageHandler(createCallMessage('call-2', 'agent-b'));
+        await flushPromiseQueue();
+
+        closeHandler({ code: 1006, reason: '' });
+
+        expect(capturedSignals.every(signal => signal.aborted)).toBe(true);
+      });
+
+      it('should keep calls running through a socket close when the outbox is enabled', async () => {
+        const { handler: outboxMessageHandler } = createConfiguredClient({ outbox: { maxSize: 10 } });
+        const outboxCloseHandler = (mockConnectionManager.on as jest.Mock).mock.calls
+          .filter(call => call[0] === 'close').pop()[1];
+
+        outboxMessageHandler(createCallMessage('call-1', 'agent-a'));
+        await flushPromiseQueue();
+        outboxCloseHandler({ code: 1006, reason: '' });
+
+        expect(capturedSignals[0].aborted).toBe(false);
+
+        resolvers[0]({ content: [{ type: 'text', text: 'finished during reconnect' }] });
+        await flushPromiseQueue();
+
+        // ConnectionManager queues the response until the socket reopens
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({ id: 'call-1' }));
+      });
+
+      it('should cancel all calls on forceDisconnectAgent', async () => {
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        await flushPromiseQueue();
+
+        client.forceDisconnectAgent();
+
+        expect(capturedSignals[0].aborted).toBe(true);
+      });
+
+      it('should cancel all calls on disconnect', async () => {
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        await flushPromiseQueue();
+
+        await client.disconnect();
+
+        expect(capturedSignals[0].aborted).toBe(true);
+      });
+
+      it('should abort the handler signal when the call times out', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, timeoutMs: 100 });
+
+        messageHandler(createCallMessage('call-1', 'agent-a'));
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(100);
+        await flushPromiseQueue();
+
+        expect(capturedSignals[0].aborted).toBe(true);
+        expect(mockConnectionManager.send).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('progress notifications', () => {
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+      });
+
+      it('should send notifications/progress keyed by the caller progress token', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation(async (_args, _message, context) => {
+            context.reportProgress(1, 4, 'Exporting page 1');
+            return { content: [{ type: 'text', text: 'done' }] };
+          })
+        );
+        const toolCallMessage = createMockToolCallMessage();
+        toolCallMessage.params._meta = { progressToken: 'progress-abc' };
+
+        messageHandler(toolCallMessage);
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenNthCalledWith(1, {
+          jsonrpc: '2.0',
+          method: 'notifications/progress',
+          params: {
+            progressToken: 'progress-abc',
+            progress: 1,
+            total: 4,
+            message: 'Exporting page 1'
+          },
+          agentSessionId: 'agent-session-123'
+        });
+        expect(mockConnectionManager.send).toHaveBeenLastCalledWith(
+          expect.objectContaining({ id: 'test-id-123', result: expect.any(Object) })
+        );
+      });
+
+      it('should not send progress when the caller did not request it', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation(async (_args, _message, context) => {
+            context.reportProgress(1, 4);
+            return { content: [{ type: 'text', text: 'done' }] };
+          })
+        );
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.send).not.toHaveBeenCalledWith(
+          expect.objectContaining({ method: 'notifications/progress' })
+        );
+      });
+
+      it('should drop throttled progress once the tool call finishes', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation(async (_args, _message, context) => {
+            context.reportProgress(1, 10);
+            context.reportProgress(2, 10);
+            return { content: [{ type: 'text', text: 'done' }] };
+          })
+        );
+        const toolCallMessage = createMockToolCallMessage();
+        toolCallMessage.params._meta = { progressToken: 7 };
+
+        messageHandler(toolCallMessage);
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(1000);
+
+        const progressCalls = mockConnectionManager.send.mock.calls
+          .filter(([sent]) => (sent as any).method === 'notifications/progress');
+        expect(progressCalls).toHaveLength(1);
+      });
+    });
+
+    describe('tool permissions', () => {
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.getHandler.mockReturnValue(sampleTool.handler);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+      });
+
+      it('should reject calls denied by toolPermissions with a JSON-RPC error before validation', async () => {
+        const { client: configuredClient, handler } = createConfiguredClient({
+          toolPermissions: { clients: { 'cursor': { deny: ['test-tool'] } } }
+        });
+        const deniedListener = jest.fn();
+        configuredClient.on('tool-call-denied', deniedListener);
+
+        handler({ type: 'agent-connected', agentSessionId: 'agent-session-123', clientInfo: { name: 'cursor' } });
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockToolRegistry.validate).not.toHaveBeenCalled();
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-123',
+          error: {
+            code: -32001,
+            message: 'Tool call not permitted',
+            data: "Tool 'test-tool' is denied for agent client 'cursor'"
+          },
+          agentSessionId: 'agent-session-123'
+        });
+        expect(deniedListener).toHaveBeenCalledWith({
+          toolName: 'test-tool',
+          requestId: 'test-id-123',
+          agentSessionId: 'agent-session-123',
+          clientName: 'cursor',
+          reason: "Tool 'test-tool' is denied for agent client 'cursor'"
+        });
+      });
+
+      it('should deny calls from sessions without client info when client rules exist', async () => {
+        const { handler } = createConfiguredClient({
+          toolPermissions: { clients: { 'cursor': { deny: ['delete_document'] } } }
+        });
+
+        // No agent-connected yet, e.g. right after a reconnect
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-123',
+          error: expect.objectContaining({
+            code: -32001,
+            data: "Tool 'test-tool' is denied for agents that have not identified their client"
+          })
+        }));
+      });
+
+      it('should pass the session, tool name and arguments to authorizeToolCall', async () => {
+        const authorizeToolCall = jest.fn().mockResolvedValue(true);
+        const { handler } = createConfiguredClient({ authorizeToolCall });
+
+        handler({ type: 'agent-connected', agentSessionId: 'agent-session-123' });
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(authorizeToolCall).toHaveBeenCalledWith(
+          expect.objectContaining({ agentSessionId: 'agent-session-123' }),
+          'test-tool',
+          { message: 'test' }
+        );
+        expect(sampleTool.handler).toHaveBeenCalled();
+      });
+
+      it('should deny calls rejected by authorizeToolCall', async () => {
+        const { client: configuredClient, handler } = createConfiguredClient({
+          authorizeToolCall: () => false
+        });
+        const deniedListener = jest.fn();
+        configuredClient.on('tool-call-denied', deniedListener);
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          error: expect.objectContaining({
+            code: -32001,
+            data: "Tool 'test-tool' was rejected by the authorization policy"
+          })
+        }));
+        expect(deniedListener).toHaveBeenCalled();
+      });
+
+      it('should deny calls when authorizeToolCall throws', async () => {
+        const { handler } = createConfiguredClient({
+          authorizeToolCall: () => { throw new Error('policy service down'); }
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          error: expect.objectContaining({ data: 'Authorization check failed: policy service down' })
+        }));
+      });
+
+      it('should not consult authorizeToolCall when toolPermissions already denied', async () => {
+        const authorizeToolCall = jest.fn().mockReturnValue(true);
+        const { handler } = createConfiguredClient({
+          toolPermissions: { default: { allow: [] } },
+          authorizeToolCall
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(authorizeToolCall).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('tool call confirmation', () => {
+      const destructiveTool: Tool = {
+        ...sampleTool,
+        annotations: { destructiveHint: true }
+      };
+
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.getHandler.mockReturnValue(sampleTool.handler);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(destructiveTool);
+        mockToolRegistry.getDefinition.mockReturnValue({ name: 'test-tool', inputSchema: { type: 'object' } });
+      });
+
+      it('should run destructive tools once the user approves', async () => {
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'approve' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(confirmToolCall).toHaveBeenCalledWith({
+          toolName: 'test-tool',
+          tool: { name: 'test-tool', inputSchema: { type: 'object' } },
+          arguments: { message: 'test' },
+          session: expect.objectContaining({ agentSessionId: 'agent-session-123' }),
+          requestId: 'test-id-123'
+        });
+        expect(sampleTool.handler).toHaveBeenCalled();
+      });
+
+      it('should answer with an isError result the agent can understand when denied', async () => {
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'deny', reason: 'Not now' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-123',
+          result: {
+            content: [{
+              type: 'text',
+              text: "The user declined to run tool 'test-tool': Not now. Do not retry unless the user asks you to."
+            }],
+            isError: true
+          },
+          agentSessionId: 'agent-session-123'
+        });
+      });
+
+      it('should run the handler with edited arguments after re-validating them', async () => {
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'edit', arguments: { message: 'edited' } });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockToolRegistry.validate).toHaveBeenLastCalledWith('test-tool', { message: 'edited' });
+        expect(sampleTool.handler).toHaveBeenCalledWith({ message: 'edited' }, expect.anything(), expect.anything());
+      });
+
+      it('should reject edited arguments that fail validation', async () => {
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'edit', arguments: {} });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+        mockToolRegistry.validate
+          .mockReturnValueOnce({ isValid: true })
+          .mockReturnValueOnce({ isValid: false, errors: [{ instancePath: '', message: "must have required property 'message'" }] });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: expect.objectContaining({ isError: true })
+        }));
+      });
+
+      it('should treat a confirmation timeout as a denial', async () => {
+        const confirmToolCall = jest.fn().mockReturnValue(new Promise(() => {}));
+        const { handler } = createConfiguredClient({ confirmToolCall, confirmationTimeoutMs: 5000 });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(5000);
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: {
+            content: [{
+              type: 'text',
+              text: "The user declined to run tool 'test-tool': no confirmation was given within 5000ms. Do not retry unless the user asks you to."
+            }],
+            isError: true
+          }
+        }));
+      });
+
+      it('should ask for non-idempotent tools', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, annotations: { idempotentHint: false } });
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'approve' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(confirmToolCall).toHaveBeenCalled();
+      });
+
+      it('should not ask for tools without destructive or non-idempotent hints', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, annotations: { readOnlyHint: true } });
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'deny' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(confirmToolCall).not.toHaveBeenCalled();
+        expect(sampleTool.handler).toHaveBeenCalled();
+      });
+
+      it('should not ask for read-only tools even with a non-idempotent hint', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, annotations: { readOnlyHint: true, idempotentHint: false } });
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'deny' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(confirmToolCall).not.toHaveBeenCalled();
+        expect(sampleTool.handler).toHaveBeenCalled();
+      });
+
+      it('should ask for read-only tools that set requiresConfirmation', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, annotations: { readOnlyHint: true }, requiresConfirmation: true });
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'approve' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(confirmToolCall).toHaveBeenCalled();
+      });
+
+      it('should honor the per-tool requiresConfirmation override', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...destructiveTool, requiresConfirmation: false });
+        const confirmToolCall = jest.fn().mockResolvedValue({ action: 'deny' });
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(confirmToolCall).not.toHaveBeenCalled();
+        expect(sampleTool.handler).toHaveBeenCalled();
+      });
+
+      it('should deny when confirmToolCall throws', async () => {
+        const confirmToolCall = jest.fn().mockRejectedValue(new Error('dialog crashed'));
+        const { handler } = createConfiguredClient({ confirmToolCall });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: expect.objectContaining({
+            content: [expect.objectContaining({ text: expect.stringContaining('confirmation failed: dialog crashed') })]
+          })
+        }));
+      });
+    });
+
+    describe('rate limiting', () => {
+      beforeEach(() => {
+        jest.setSystemTime(0);
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.getHandler.mockReturnValue(sampleTool.handler);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+      });
+
+      it('should reject invalid rate limits in the config and on tools', () => {
+        expect(() => createConfiguredClient({ rateLimit: { calls: 0, windowMs: 1000 } }))
+          .toThrow('Invalid rateLimit for the config: calls and windowMs must be positive numbers');
+
+        const { client } = createConfiguredClient();
+        expect(() => client.registerTool({ ...sampleTool, rateLimit: { calls: 5, windowMs: 0 } }))
+          .toThrow("Invalid rateLimit for tool 'test-tool': calls and windowMs must be positive numbers");
+        expect(mockToolRegistry.register).not.toHaveBeenCalled();
+      });
+
+      it('should answer calls over the tool limit with a retry hint and emit rate-limited', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, rateLimit: { calls: 1, windowMs: 30000 } });
+        const { client, handler } = createConfiguredClient();
+        const rateLimitedSpy = jest.fn();
+        client.on('rate-limited', rateLimitedSpy);
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-456',
+          result: {
+            content: [{
+              type: 'text',
+              text: "Rate limit exceeded for tool 'test-tool'. Retry after 30 seconds."
+            }],
+            isError: true,
+            _meta: { retryAfterMs: 30000 }
+          },
+          agentSessionId: 'agent-session-123'
+        });
+        expect(rateLimitedSpy).toHaveBeenCalledWith({
+          toolName: 'test-tool',
+          requestId: 'test-id-456',
+          agentSessionId: 'agent-session-123',
+          retryAfterMs: 30000
+        });
+      });
+
+      it('should apply the global default to tools without their own limit', async () => {
+        mockToolRegistry.get.mockReturnValue(sampleTool);
+        const { handler } = createConfiguredClient({ rateLimit: { calls: 1, windowMs: 1000 } });
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-456',
+          result: expect.objectContaining({ isError: true, _meta: { retryAfterMs: 1000 } })
+        }));
+      });
+
+      it('should let tools opt out of the global default', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, rateLimit: false });
+        const { handler } = createConfiguredClient({ rateLimit: { calls: 1, windowMs: 1000 } });
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).toHaveBeenCalledTimes(2);
+      });
+
+      it('should limit each agent session separately', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, rateLimit: { calls: 1, windowMs: 1000 } });
+        const { handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), agentSessionId: 'agent-session-456' });
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('tool concurrency', () => {
+      // Handler whose calls stay running until finished from the test
+      const createDeferredHandler = () => {
+        const finishers: Array<() => void> = [];
+        const toolHandler = jest.fn(() => new Promise<ToolResponse>(resolve => {
+          finishers.push(() => resolve({ content: [{ type: 'text', text: 'done' }] }));
+        }));
+        return { toolHandler, finishers };
+      };
+
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+      });
+
+      it('should run calls to non-reentrant tools one at a time', async () => {
+        const { toolHandler, finishers } = createDeferredHandler();
+        mockToolRegistry.getHandler.mockReturnValue(toolHandler);
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, reentrant: false });
+        const { handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        expect(toolHandler).toHaveBeenCalledTimes(1);
+
+        finishers[0]();
+        await flushPromiseQueue();
+
+        expect(toolHandler).toHaveBeenCalledTimes(2);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({ id: 'test-id-123' }));
+      });
+
+      it('should keep the slot of a timed-out handler until it settles', async () => {
+        const { toolHandler, finishers } = createDeferredHandler();
+        mockToolRegistry.getHandler.mockReturnValue(toolHandler);
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, reentrant: false, timeoutMs: 1000 });
+        const { client, handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(500);
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        jest.advanceTimersByTime(500);
+        await flushPromiseQueue();
+
+        // The agent gets its timeout answer, but the ignored-signal handler is still running
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-123',
+          result: expect.objectContaining({ isError: true })
+        }));
+        expect(toolHandler).toHaveBeenCalledTimes(1);
+        expect(client.getQueueMetrics()).toMatchObject({ running: 1, queued: 1 });
+
+        finishers[0]();
+        await flushPromiseQueue();
+
+        expect(toolHandler).toHaveBeenCalledTimes(2);
+      });
+
+      it('should time out calls queued behind a hung handler', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockReturnValue(new Promise(() => {})));
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, reentrant: false, timeoutMs: 1000 });
+        const { client, handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(1000);
+        await flushPromiseQueue();
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        jest.advanceTimersByTime(1000);
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-456',
+          result: {
+            content: [{ type: 'text', text: "Tool 'test-tool' timed out after 1000ms" }],
+            isError: true
+          }
+        }));
+        expect(client.getQueueMetrics()).toMatchObject({ running: 1, queued: 0 });
+      });
+
+      it('should queue calls beyond the global limit and report queue metrics', async () => {
+        const { toolHandler, finishers } = createDeferredHandler();
+        mockToolRegistry.getHandler.mockReturnValue(toolHandler);
+        mockToolRegistry.get.mockReturnValue(sampleTool);
+        const { client, handler } = createConfiguredClient({ maxConcurrency: 1 });
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        expect(client.getQueueMetrics()).toEqual({
+          running: 1,
+          queued: 1,
+          rejected: 0,
+          tools: { 'test-tool': { running: 1, queued: 1 } }
+        });
+
+        finishers[0]();
+        await flushPromiseQueue();
+        finishers[1]();
+        await flushPromiseQueue();
+
+        expect(client.getQueueMetrics()).toEqual({ running: 0, queued: 0, rejected: 0, tools: {} });
+      });
+
+      it('should answer with a busy result when the queue is full', async () => {
+        const { toolHandler } = createDeferredHandler();
+        mockToolRegistry.getHandler.mockReturnValue(toolHandler);
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, maxConcurrency: 1 });
+        const { client, handler } = createConfiguredClient({ maxQueueLength: 0 });
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        expect(toolHandler).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-456',
+          result: {
+            content: [{
+              type: 'text',
+              text: "Tool 'test-tool' is busy: too many tool calls are waiting to run. Try again shortly."
+            }],
+            isError: true
+          },
+          agentSessionId: 'agent-session-123'
+        });
+        expect(client.getQueueMetrics().rejected).toBe(1);
+      });
+
+      it('should drop queued calls that are cancelled before they start', async () => {
+        const { toolHandler } = createDeferredHandler();
+        mockToolRegistry.getHandler.mockReturnValue(toolHandler);
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, reentrant: false });
+        const { client, handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        handler({ ...createMockToolCallMessage(), id: 'test-id-456' });
+        await flushPromiseQueue();
+
+        handler({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 'test-id-456' },
+          agentSessionId: 'agent-session-123'
+        });
+        await flushPromiseQueue();
+
+        expect(client.getQueueMetrics().queued).toBe(0);
+        expect(mockConnectionManager.send).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'test-id-456' }));
+      });
+    });
+
+    describe('output validation', () => {
+      const structuredTool: Tool = {
+        ...sampleTool,
+        outputSchema: {
+          type: 'object',
+          properties: { count: { type: 'number' } },
+          required: ['count']
+        }
+      };
+
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(structuredTool);
+      });
+
+      it('should add a text fallback when a handler only returns structuredContent', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockResolvedValue({ structuredContent: { count: 2 } }));
+        const { handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockToolRegistry.validateOutput).toHaveBeenCalledWith('test-tool', { count: 2 });
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'test-id-123',
+          result: {
+            content: [{ type: 'text', text: '{"count":2}' }],
+            structuredContent: { count: 2 }
+          },
+          agentSessionId: 'agent-session-123'
+        });
+      });
+
+      it('should warn but still send mismatched output by default', async () => {
+        const result = { content: [{ type: 'text', text: 'two' }], structuredContent: { count: 'two' } };
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockResolvedValue(result));
+        mockToolRegistry.validateOutput.mockReturnValue({
+          isValid: false,
+          errors: [{ instancePath: '/count', message: 'must be number' }]
+        });
+        const { handler } = createConfiguredClient();
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('/count: must be number'));
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({ result }));
+      });
+
+      it('should replace mismatched output with an isError result in enforce mode', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockResolvedValue({ structuredContent: { count: 'two' } }));
+        mockToolRegistry.validateOutput.mockReturnValue({
+          isValid: false,
+          errors: [{ instancePath: '/count', message: 'must be number' }]
+        });
+        const { handler } = createConfiguredClient({ outputValidation: 'enforce' });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: {
+            content: [{
+              type: 'text',
+              text: "Tool 'test-tool' returned invalid output: structuredContent does not match its outputSchema: /count: must be number"
+            }],
+            isError: true
+          }
+        }));
+      });
+
+      it('should reject missing structuredContent in enforce mode', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'hi' }] }));
+        const { handler } = createConfiguredClient({ outputValidation: 'enforce' });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: expect.objectContaining({
+            content: [expect.objectContaining({ text: expect.stringContaining('returned no structuredContent') })],
+            isError: true
+          })
+        }));
+      });
+
+      it('should leave error results and disabled validation alone', async () => {
+        const errorResult = { content: [{ type: 'text', text: 'failed' }], isError: true };
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockResolvedValue(errorResult));
+        const { handler } = createConfiguredClient({ outputValidation: 'enforce' });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({ result: errorResult }));
+
+        mockToolRegistry.getHandler.mockReturnValue(jest.fn().mockResolvedValue({ structuredContent: { count: 'two' } }));
+        const { handler: offHandler } = createConfiguredClient({ outputValidation: 'off' });
+
+        offHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockToolRegistry.validateOutput).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('tool middleware', () => {
+      const createClientWithMiddleware = (...middleware: ToolMiddleware[]) => {
+        const configured = createConfiguredClient();
+        middleware.forEach(m => configured.client.use(m));
+        return configured;
+      };
+
+      beforeEach(() => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.getHandler.mockReturnValue(sampleTool.handler);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.getDefinition.mockReturnValue({ name: 'test-tool', inputSchema: { type: 'object' } });
+      });
+
+      it('should run middleware in order around the handler', async () => {
+        const order: string[] = [];
+        const first: ToolMiddleware = async (ctx, next) => {
+          order.push('first:before');
+          const result = await next();
+          order.push('first:after');
+          return result;
+        };
+        const second: ToolMiddleware = async (ctx, next) => {
+          order.push('second:before');
+          const result = await next();
+          order.push('second:after');
+          return result;
+        };
+        (sampleTool.handler as jest.Mock).mockImplementationOnce(async () => {
+          order.push('handler');
+          return { content: [{ type: 'text', text: 'Test response' }] };
+        });
+        const { handler } = createClientWithMiddleware(first, second);
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(order).toEqual(['first:before', 'second:before', 'handler', 'second:after', 'first:after']);
+      });
+
+      it('should pass the call context to middleware', async () => {
+        const middleware = jest.fn((ctx, next) => next());
+        const { handler } = createClientWithMiddleware(middleware);
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(middleware).toHaveBeenCalledWith(expect.objectContaining({
+          toolName: 'test-tool',
+          tool: { name: 'test-tool', inputSchema: { type: 'object' } },
+          arguments: { message: 'test' },
+          session: expect.objectContaining({ agentSessionId: 'agent-session-123' }),
+          requestId: 'test-id-123',
+          agentSessionId: 'agent-session-123',
+          signal: expect.any(AbortSignal)
+        }), expect.any(Function));
+      });
+
+      it('should let middleware short-circuit the call', async () => {
+        const cached: ToolResponse = { content: [{ type: 'text', text: 'From cache' }] };
+        const { handler } = createClientWithMiddleware(async () => cached);
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockToolRegistry.validate).not.toHaveBeenCalled();
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({ result: cached }));
+      });
+
+      it('should validate and run the handler with rewritten arguments', async () => {
+        const { handler } = createClientWithMiddleware(async (ctx, next) => {
+          ctx.arguments = { message: 'rewritten' };
+          return next();
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockToolRegistry.validate).toHaveBeenCalledWith('test-tool', { message: 'rewritten' });
+        expect(sampleTool.handler).toHaveBeenCalledWith({ message: 'rewritten' }, expect.anything(), expect.anything());
+      });
+
+      it('should send the result as transformed by middleware', async () => {
+        const { handler } = createClientWithMiddleware(async (ctx, next) => {
+          const result = await next();
+          return { ...result, _meta: { audited: true } };
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: {
+            content: [{ type: 'text', text: 'Test response' }],
+            _meta: { audited: true }
+          }
+        }));
+      });
+
+      it('should let middleware map handler errors to results', async () => {
+        (sampleTool.handler as jest.Mock).mockRejectedValueOnce(new Error('database offline'));
+        const { handler } = createClientWithMiddleware(async (ctx, next) => {
+          try {
+            return await next();
+          } catch {
+            return { content: [{ type: 'text', text: 'Storage is unavailable, try again shortly' }], isError: true };
+          }
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: {
+            content: [{ type: 'text', text: 'Storage is unavailable, try again shortly' }],
+            isError: true
+          }
+        }));
+      });
+
+      it('should answer with an execution error when middleware throws', async () => {
+        const { handler } = createClientWithMiddleware(async () => {
+          throw new Error('quota exceeded');
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).not.toHaveBeenCalled();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: {
+            content: [{ type: 'text', text: 'Tool execution failed: quota exceeded' }],
+            isError: true
+          }
+        }));
+      });
+
+      it('should reject results from middleware without content', async () => {
+        const { handler } = createClientWithMiddleware(async () => ({} as any));
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: {
+            content: [{ type: 'text', text: "Tool middleware for 'test-tool' returned invalid result format" }],
+            isError: true
+          }
+        }));
+      });
+
+      it('should fail the call when next() is called twice', async () => {
+        const { handler } = createClientWithMiddleware(async (ctx, next) => {
+          await next();
+          return next();
+        });
+
+        handler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        expect(sampleTool.handler).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          result: expect.objectContaining({
+            content: [{ type: 'text', text: 'Tool execution failed: next() called multiple times' }]
+          })
+        }));
+      });
+
+      it('should throw when use() is given something other than a function', () => {
+        const client = new Snappjack(validConfig);
+
+        expect(() => client.use('logger' as any)).toThrow('Tool middleware must be a function');
+      });
+    });
+
+    describe('elicitation', () => {
+      let elicitResults: ElicitResult[];
+
+      const findElicitationRequest = () => mockConnectionManager.send.mock.calls
+        .map(([sent]) => sent as OutgoingRequestMessage)
+        .find(sent => sent.method === 'elicitation/create');
+
+      const nameSchema: ElicitationSchema = {
+        type: 'object',
+        properties: { name: { type: 'string', description: 'Project name' } },
+        required: ['name']
+      };
+
+      beforeEach(() => {
+        elicitResults = [];
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation(async (_args, _message, context) => {
+            const result: ElicitResult = await context.elicit('What should the project be called?', nameSchema);
+            elicitResults.push(result);
+            return { content: [{ type: 'text', text: `Action: ${result.action}` }] };
+          })
+        );
+      });
+
+      it('should ask the calling agent and hand the answer to the tool handler', async () => {
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        const request = findElicitationRequest();
+        expect(request).toEqual({
+          jsonrpc: '2.0',
+          id: expect.any(String),
+          method: 'elicitation/create',
+          params: { message: 'What should the project be called?', requestedSchema: nameSchema },
+          agentSessionId: 'agent-session-123'
+        });
+
+        messageHandler({
+          jsonrpc: '2.0',
+          id: request!.id,
+          result: { action: 'accept', content: { name: 'Apollo' } },
+          agentSessionId: 'agent-session-123'
+        });
+        await flushPromiseQueue();
+
+        expect(elicitResults).toEqual([{ action: 'accept', content: { name: 'Apollo' } }]);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-123',
+          result: { content: [{ type: 'text', text: 'Action: accept' }] }
+        }));
+      });
+
+      it('should not emit responses to app requests as generic messages', async () => {
+        const messageListener = jest.fn();
+        client.on('message', messageListener);
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        messageHandler({ jsonrpc: '2.0', id: findElicitationRequest()!.id, result: { action: 'decline' } });
+        await flushPromiseQueue();
+
+        expect(elicitResults).toEqual([{ action: 'decline' }]);
+        expect(messageListener).not.toHaveBeenCalled();
+      });
+
+      it('should resolve as cancel when the user does not answer in time', async () => {
+        const { handler: timedHandler } = createConfiguredClient({ elicitationTimeoutMs: 1000 });
+
+        timedHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(1000);
+        await flushPromiseQueue();
+
+        expect(elicitResults).toEqual([{ action: 'cancel' }]);
+        expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('No answer to elicitation'));
+
+        // A late answer is ignored rather than delivered twice
+        timedHandler({ jsonrpc: '2.0', id: findElicitationRequest()!.id, result: { action: 'accept', content: {} } });
+        await flushPromiseQueue();
+        expect(elicitResults).toHaveLength(1);
+      });
+
+      it('should pause the tool timeout while waiting for an answer', async () => {
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        // Longer than the default 60s tool timeout, shorter than the 5 minute elicitation timeout
+        jest.advanceTimersByTime(90000);
+        await flushPromiseQueue();
+        expect(mockConnectionManager.send).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'test-id-123' }));
+
+        messageHandler({
+          jsonrpc: '2.0',
+          id: findElicitationRequest()!.id,
+          result: { action: 'accept', content: { name: 'Apollo' } },
+          agentSessionId: 'agent-session-123'
+        });
+        await flushPromiseQueue();
+
+        expect(elicitResults).toEqual([{ action: 'accept', content: { name: 'Apollo' } }]);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-123',
+          result: { content: [{ type: 'text', text: 'Action: accept' }] }
+        }));
+      });
+
+      it('should resume the tool timeout once the answer arrives', async () => {
+        mockToolRegistry.get.mockReturnValue({ ...sampleTool, timeoutMs: 1000 });
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation(async (_args, _message, context) => {
+            jest.advanceTimersByTime(400);
+            await context.elicit('What should the project be called?', nameSchema);
+            return new Promise(() => {});
+          })
+        );
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        jest.advanceTimersByTime(10000);
+        messageHandler({ jsonrpc: '2.0', id: findElicitationRequest()!.id, result: { action: 'decline' } });
+        await flushPromiseQueue();
+
+        jest.advanceTimersByTime(599);
+        await flushPromiseQueue();
+        expect(mockConnectionManager.send).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'test-id-123' }));
+
+        jest.advanceTimersByTime(1);
+        await flushPromiseQueue();
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-123',
+          result: expect.objectContaining({ content: [{ type: 'text', text: "Tool 'test-tool' timed out after 1000ms" }] })
+        }));
+      });
+
+      it('should resolve as cancel when the tool call is cancelled', async () => {
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+
+        messageHandler({
+          jsonrpc: '2.0',
+          method: 'notifications/cancelled',
+          params: { requestId: 'test-id-123' },
+          agentSessionId: 'agent-session-123'
+        });
+        await flushPromiseQueue();
+
+        expect(elicitResults).toEqual([{ action: 'cancel' }]);
+      });
+
+      it('should reject when the agent does not support elicitation', async () => {
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation(async (_args, _message, context) => {
+            try {
+              await context.elicit('Continue?', { type: 'object', properties: {} });
+              return { content: [{ type: 'text', text: 'asked' }] };
+            } catch (error) {
+              return { content: [{ type: 'text', text: (error as Error).message }], isError: true };
+            }
+          })
+        );
+
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        messageHandler({
+          jsonrpc: '2.0',
+          id: findElicitationRequest()!.id,
+          error: { code: -32601, message: 'Method not found' },
+          agentSessionId: 'agent-session-123'
+        });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'test-id-123',
+          result: { content: [{ type: 'text', text: 'Method not found' }], isError: true }
+        }));
+      });
+
+      it('should resolve as cancel when the agent disconnects', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-session-123' });
+        messageHandler(createMockToolCallMessage());
+        await flushPromiseQueue();
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-session-123' });
+        await flushPromiseQueue();
+
+        expect(elicitResults).toEqual([{ action: 'cancel' }]);
+      });
+    });
+
+    describe('method dispatch', () => {
+      let client: Snappjack;
+      let handler: (message: unknown) => void;
+
+      // Pass id null to build a notification
+      const createRequest = (method: string, params?: object, id: string | number | null = 'req-1') => ({
+        jsonrpc: '2.0',
+        ...(id !== null && { id }),
+        method,
+        ...(params && { params }),
+        agentSessionId: 'agent-session-123'
+      });
+
+      beforeEach(() => {
+        ({ client, handler } = createConfiguredClient());
+      });
+
+      it('should answer ping with an empty result', async () => {
+        handler(createRequest('ping'));
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'req-1',
+          result: {},
+          agentSessionId: 'agent-session-123'
+        });
+      });
+
+      it('should serve tools/list from the enabled tools', async () => {
+        const definitions = [{ name: 'test-tool', inputSchema: { type: 'object' as const } }];
+        mockToolRegistry.getEnabled.mockReturnValue(definitions);
+
+        handler(createRequest('tools/list'));
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          result: { tools: definitions }
+        }));
+      });
+
+      it('should answer unknown methods with Method not found', async () => {
+        handler(createRequest('completion/complete'));
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          jsonrpc: '2.0',
+          id: 'req-1',
+          error: {
+            code: -32601,
+            message: 'Method not found',
+            data: "Method 'completion/complete' is not supported"
+          },
+          agentSessionId: 'agent-session-123'
+        });
+      });
+
+      it('should answer tools/call without a tool name with Invalid params', async () => {
+        handler(createRequest('tools/call', {}));
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          error: { code: -32602, message: 'Invalid params', data: 'tools/call requires params.name' }
+        }));
+      });
+
+      it('should still emit unhandled notifications as generic messages', async () => {
+        const emitSpy = jest.spyOn(client, 'emit');
+        const notification = createRequest('notifications/initialized', undefined, null);
+
+        handler(notification);
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+        expect(emitSpy).toHaveBeenCalledWith('message', notification);
+      });
+
+      it('should call custom method handlers with params and context', async () => {
+        const methodHandler = jest.fn().mockResolvedValue({ theme: 'dark' });
+        client.registerMethodHandler('app/getSettings', methodHandler);
+
+        handler(createRequest('app/getSettings', { section: 'display' }));
+        await flushPromiseQueue();
+
+        expect(methodHandler).toHaveBeenCalledWith({ section: 'display' }, {
+          method: 'app/getSettings',
+          requestId: 'req-1',
+          agentSessionId: 'agent-session-123',
+          session: expect.objectContaining({ agentSessionId: 'agent-session-123' })
+        });
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          result: { theme: 'dark' }
+        }));
+      });
+
+      it('should run handlers for notifications without responding', async () => {
+        const methodHandler = jest.fn().mockReturnValue({ ignored: true });
+        client.registerMethodHandler('notifications/roots/list_changed', methodHandler);
+
+        handler(createRequest('notifications/roots/list_changed', undefined, null));
+        await flushPromiseQueue();
+
+        expect(methodHandler).toHaveBeenCalled();
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should map handler errors to JSON-RPC errors', async () => {
+        client.registerMethodHandler('app/crash', () => {
+          throw new Error('boom');
+        });
+        client.registerMethodHandler('app/validate', () => {
+          throw Object.assign(new Error('section is required'), { code: -32602 });
+        });
+
+        handler(createRequest('app/crash', undefined, 'req-1'));
+        handler(createRequest('app/validate', undefined, 'req-2'));
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          error: { code: -32603, message: 'Internal error', data: 'boom' }
+        }));
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-2',
+          error: { code: -32602, message: 'section is required' }
+        }));
+      });
+
+      it('should not allow overriding built-in methods', () => {
+        expect(() => client.registerMethodHandler('ping', jest.fn())).toThrow("Cannot register a handler for built-in method 'ping'");
+        expect(() => client.registerMethodHandler('tools/call', jest.fn())).toThrow("Cannot register a handler for built-in method 'tools/call'");
+      });
+    });
+
+    describe('agent message handling', () => {
+      it('should handle agent-connected message', () => {
+        const agentConnectedMessage: AgentMessage = {
+          type: 'agent-connected',
+          agentSessionId: 'agent-123'
+        };
+
+        const emitSpy = jest.spyOn(client, 'emit');
+        messageHandler(agentConnectedMessage);
+
+        expect(emitSpy).toHaveBeenCalledWith('agent-connected', { agentSessionId: 'agent-123' });
+      });
+
+      it('should handle agent-disconnected message', () => {
+        const agentDisconnectedMessage: AgentMessage = {
+          type: 'agent-disconnected',
+          agentSessionId: 'agent-123'
+        };
+
+        const emitSpy = jest.spyOn(client, 'emit');
+        messageHandler(agentDisconnectedMessage);
+
+        expect(emitSpy).toHaveBeenCalledWith('agent-disconnected', { agentSessionId: 'agent-123' });
+      });
+    });
+
+    describe('connection-info message handling', () => {
+      it('should handle connection-info message and emit user-api-key-generated', () => {
+        const connectionInfoMessage = {
+          type: 'connection-info',
+          userApiKey: 'uak_test12345'
+        };
+
+        const emitSpy = jest.spyOn(client, 'emit');
+        messageHandler(connectionInfoMessage);
+
+        expect(emitSpy).toHaveBeenCalledWith('user-api-key-generated', {
+          userApiKey: 'uak_test12345',
+          snappId: 'test-snapp',
+          userId: 'test-user',
+          mcpEndpoint: 'http://localhost:3000/mcp/test-snapp/test-user',
+          requireAuthHeader: true
+        });
+      });
+
+      it('should handle connection-info message without userApiKey', () => {
+        const connectionInfoMessage = {
+          type: 'connection-info'
+        };
+
+        const emitSpy = jest.spyOn(client, 'emit');
+        messageHandler(connectionInfoMessage);
+
+        expect(emitSpy).not.toHaveBeenCalledWith('user-api-key-generated', expect.anything());
+      });
+
+      it('should convert WSS server URL to HTTPS for MCP endpoint', () => {
+        const configWithWss = {
+          ...validConfig,
+          serverUrl: 'https://secure-server.com'
+        };
+        const clientWithWss = new Snappjack(configWithWss);
 
         // Get the message handler for the new client
         const onCalls = (mockConnectionManager.on as jest.Mock).mock.calls;
@@ -731,30 +2710,150 @@ describe('SnappjackClient', () => {
     });
 
     describe('forceDisconnectAgent()', () => {
-      it('should send force-disconnect-agent message', () => {
-        client.forceDisconnectAgent();
+      const getMessageHandler = () => (mockConnectionManager.on as jest.Mock).mock.calls
+        .find(call => call[0] === 'message')[1];
+
+      it('should send force-disconnect-agent message', async () => {
+        await client.forceDisconnectAgent();
 
         expect(mockConnectionManager.send).toHaveBeenCalledWith({
           type: 'force-disconnect-agent'
         });
       });
 
-      it('should throw error when send fails', () => {
+      it('should target a specific agent session when given', () => {
+        getMessageHandler()({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        client.forceDisconnectAgent('agent-a').catch(() => {});
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({
+          type: 'force-disconnect-agent',
+          agentSessionId: 'agent-a'
+        });
+      });
+
+      it('should resolve when the targeted agent disconnects', async () => {
+        const messageHandler = getMessageHandler();
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        const resolved = jest.fn();
+        const disconnectPromise = client.forceDisconnectAgent('agent-a').then(resolved);
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-b' });
+        await flushPromiseQueue();
+        expect(resolved).not.toHaveBeenCalled();
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-a' });
+        await disconnectPromise;
+        expect(resolved).toHaveBeenCalled();
+      });
+
+      it('should resolve once every agent has disconnected when no session is given', async () => {
+        const messageHandler = getMessageHandler();
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        const resolved = jest.fn();
+        const disconnectPromise = client.forceDisconnectAgent().then(resolved);
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-a' });
+        await flushPromiseQueue();
+        expect(resolved).not.toHaveBeenCalled();
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-b' });
+        await disconnectPromise;
+        expect(resolved).toHaveBeenCalled();
+      });
+
+      it('should reject when the disconnect is not confirmed in time', async () => {
+        getMessageHandler()({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        const disconnectPromise = client.forceDisconnectAgent('agent-a');
+
+        jest.advanceTimersByTime(10000);
+
+        await expect(disconnectPromise).rejects.toThrow('Timeout waiting for agent agent-a to disconnect');
+      });
+
+      it('should remove its close listener from the connection manager once settled', async () => {
+        const emitter = new EventEmitter();
+        mockConnectionManager.on.mockImplementation((event, listener) => {
+          emitter.on(event, listener);
+          return mockConnectionManager;
+        });
+        mockConnectionManager.off.mockImplementation((event, listener) => {
+          emitter.off(event, listener);
+          return mockConnectionManager;
+        });
+        const wiredClient = new Snappjack(validConfig);
+        emitter.emit('message', { type: 'agent-connected', agentSessionId: 'agent-a' });
+        const closeListeners = emitter.listenerCount('close');
+
+        const disconnectPromise = wiredClient.forceDisconnectAgent('agent-a');
+        expect(emitter.listenerCount('close')).toBe(closeListeners + 1);
+
+        emitter.emit('message', { type: 'agent-disconnected', agentSessionId: 'agent-a' });
+        await disconnectPromise;
+        expect(emitter.listenerCount('close')).toBe(closeListeners);
+      });
+
+      it('should reject unknown agent sessions right away', async () => {
+        await expect(client.forceDisconnectAgent('agent-unknown')).rejects.toThrow('Unknown agent session: agent-unknown');
+        expect(mockConnectionManager.send).not.toHaveBeenCalled();
+      });
+
+      it('should reject when the connection closes before the agent disconnects', async () => {
+        getMessageHandler()({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        const disconnectPromise = client.forceDisconnectAgent('agent-a');
+
+        const onClose = (mockConnectionManager.on as jest.Mock).mock.calls
+          .filter(call => call[0] === 'close').pop()[1];
+        onClose({ code: 1006, reason: 'Connection lost' });
+
+        await expect(disconnectPromise).rejects.toThrow('Connection closed before agent agent-a disconnected');
+        expect(mockConnectionManager.off).toHaveBeenCalledWith('close', onClose);
+        expect(jest.getTimerCount()).toBe(0);
+      });
+
+      it('should only cancel tool calls of the targeted session', async () => {
+        const messageHandler = getMessageHandler();
+        const signals: Record<string, AbortSignal> = {};
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation((_args, message: ToolCallMessage, context) => {
+            signals[message.agentSessionId] = context.signal;
+            return new Promise(() => {});
+          })
+        );
+
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ ...createMockToolCallMessage(), agentSessionId: 'agent-a' });
+        messageHandler({ ...createMockToolCallMessage(), agentSessionId: 'agent-b' });
+        await flushPromiseQueue();
+
+        client.forceDisconnectAgent('agent-a').catch(() => {});
+
+        expect(signals['agent-a'].aborted).toBe(true);
+        expect(signals['agent-b'].aborted).toBe(false);
+      });
+
+      it('should reject when send fails', async () => {
         mockConnectionManager.send.mockImplementation(() => {
           throw new Error('Connection not available');
         });
 
-        expect(() => client.forceDisconnectAgent())
-          .toThrow('Failed to force disconnect agent: Connection not available');
+        await expect(client.forceDisconnectAgent())
+          .rejects.toThrow('Failed to force disconnect agent: Connection not available');
       });
 
-      it('should handle non-Error exceptions', () => {
+      it('should handle non-Error exceptions', async () => {
         mockConnectionManager.send.mockImplementation(() => {
           throw 'String error';
         });
 
-        expect(() => client.forceDisconnectAgent())
-          .toThrow('Failed to force disconnect agent: String error');
+        await expect(client.forceDisconnectAgent())
+          .rejects.toThrow('Failed to force disconnect agent: String error');
       });
     });
 
@@ -813,6 +2912,94 @@ describe('SnappjackClient', () => {
         );
       });
 
+      it('should answer interleaved calls from two sessions to the right session', async () => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+
+        const resolvers: Record<string, (value: ToolResponse) => void> = {};
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation((_args, message: ToolCallMessage) =>
+            new Promise<ToolResponse>(resolve => { resolvers[String(message.id)] = resolve; })
+          )
+        );
+
+        // Slow call from session A, then a fast call from session B
+        messageHandler({ ...createMockToolCallMessage(), id: 'a-1', agentSessionId: 'session-a' });
+        messageHandler({ ...createMockToolCallMessage(), id: 'b-1', agentSessionId: 'session-b' });
+        await flushPromiseQueue();
+
+        resolvers['b-1']({ content: [{ type: 'text', text: 'from b' }] });
+        await flushPromiseQueue();
+        resolvers['a-1']({ content: [{ type: 'text', text: 'from a' }] });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenNthCalledWith(1, {
+          jsonrpc: '2.0',
+          id: 'b-1',
+          result: { content: [{ type: 'text', text: 'from b' }] },
+          agentSessionId: 'session-b'
+        });
+        expect(mockConnectionManager.send).toHaveBeenNthCalledWith(2, {
+          jsonrpc: '2.0',
+          id: 'a-1',
+          result: { content: [{ type: 'text', text: 'from a' }] },
+          agentSessionId: 'session-a'
+        });
+      });
+
+      it('should keep overlapping calls with the same id apart per session', async () => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+
+        const resolvers: Record<string, (value: ToolResponse) => void> = {};
+        mockToolRegistry.getHandler.mockReturnValue(
+          jest.fn().mockImplementation((_args, message: ToolCallMessage) =>
+            new Promise<ToolResponse>(resolve => { resolvers[message.agentSessionId] = resolve; })
+          )
+        );
+
+        messageHandler({ ...createMockToolCallMessage(), id: 1, agentSessionId: 'session-a' });
+        messageHandler({ ...createMockToolCallMessage(), id: 1, agentSessionId: 'session-b' });
+        await flushPromiseQueue();
+
+        resolvers['session-a']({ content: [{ type: 'text', text: 'from a' }] });
+        resolvers['session-b']({ content: [{ type: 'text', text: 'from b' }] });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 1,
+          result: { content: [{ type: 'text', text: 'from a' }] },
+          agentSessionId: 'session-a'
+        }));
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 1,
+          result: { content: [{ type: 'text', text: 'from b' }] },
+          agentSessionId: 'session-b'
+        }));
+      });
+
+      it('should stamp protocol errors with the caller session while another call is pending', async () => {
+        mockToolRegistry.has.mockImplementation((name: string) => name === 'test-tool');
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+        mockToolRegistry.getHandler.mockImplementation((name: string) =>
+          name === 'test-tool' ? jest.fn().mockReturnValue(new Promise(() => {})) : undefined
+        );
+
+        messageHandler({ ...createMockToolCallMessage(), id: 'a-1', agentSessionId: 'session-a' });
+        messageHandler({ ...createMockToolCallMessage('missing-tool'), id: 'b-1', agentSessionId: 'session-b' });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledTimes(1);
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'b-1',
+          error: expect.objectContaining({ code: -32601 }),
+          agentSessionId: 'session-b'
+        }));
+      });
+
       it('should clear current agent session on agent-disconnected', () => {
         const agentDisconnectedMessage: AgentMessage = {
           type: 'agent-disconnected',
@@ -827,6 +3014,313 @@ describe('SnappjackClient', () => {
         expect(() => messageHandler(agentDisconnectedMessage)).not.toThrow();
       });
     });
+    describe('multi-agent sessions', () => {
+      let messageHandler: (message: any) => void;
+
+      beforeEach(() => {
+        const onCalls = (mockConnectionManager.on as jest.Mock).mock.calls;
+        messageHandler = onCalls.find(call => call[0] === 'message')[1];
+      });
+
+      it('should start with no agent sessions', () => {
+        expect(client.getAgentSessions()).toEqual([]);
+      });
+
+      it('should track each connected agent with its connect time', () => {
+        jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        jest.setSystemTime(new Date('2025-01-01T00:01:00Z'));
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        expect(client.getAgentSessions()).toEqual([
+          { agentSessionId: 'agent-a', connectedAt: Date.parse('2025-01-01T00:00:00Z'), toolCallCount: 0 },
+          { agentSessionId: 'agent-b', connectedAt: Date.parse('2025-01-01T00:01:00Z'), toolCallCount: 0 }
+        ]);
+      });
+
+      it('should stay bridged until the last agent disconnects', () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+        mockConnectionManager.updateStatus.mockClear();
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-b' });
+        expect(mockConnectionManager.updateStatus).not.toHaveBeenCalledWith('connected');
+        expect(client.getAgentSessions().map(session => session.agentSessionId)).toEqual(['agent-a']);
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-a' });
+        expect(mockConnectionManager.updateStatus).toHaveBeenCalledWith('connected');
+        expect(client.getAgentSessions()).toEqual([]);
+      });
+
+      it('should count tool calls per session', async () => {
+        mockToolRegistry.has.mockReturnValue(true);
+        mockToolRegistry.getHandler.mockReturnValue(sampleTool.handler);
+        mockToolRegistry.validate.mockReturnValue({ isValid: true });
+        mockToolRegistry.get.mockReturnValue(undefined);
+
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+        messageHandler({ ...createMockToolCallMessage(), id: 1, agentSessionId: 'agent-a' });
+        messageHandler({ ...createMockToolCallMessage(), id: 2, agentSessionId: 'agent-a' });
+        messageHandler({ ...createMockToolCallMessage(), id: 3, agentSessionId: 'agent-b' });
+        await flushPromiseQueue();
+
+        const counts = client.getAgentSessions().map(session => [session.agentSessionId, session.toolCallCount]);
+        expect(counts).toEqual([['agent-a', 2], ['agent-b', 1]]);
+        expect(client.getAgentSessions()[0].lastToolCallAt).toEqual(expect.any(Number));
+      });
+
+      it('should return copies of the session table', () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        client.getAgentSessions()[0].toolCallCount = 99;
+
+        expect(client.getAgentSessions()[0].toolCallCount).toBe(0);
+      });
+
+      it('should emit agents-changed on connect and disconnect', () => {
+        const agentsChanged = jest.fn();
+        client.on('agents-changed', agentsChanged);
+
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-a' });
+
+        expect(agentsChanged).toHaveBeenCalledTimes(3);
+        expect(agentsChanged).toHaveBeenLastCalledWith([
+          expect.objectContaining({ agentSessionId: 'agent-b' })
+        ]);
+      });
+
+      it('should not emit agents-changed for unknown sessions disconnecting', () => {
+        const agentsChanged = jest.fn();
+        client.on('agents-changed', agentsChanged);
+
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'unknown' });
+
+        expect(agentsChanged).not.toHaveBeenCalled();
+      });
+
+      it('should clear sessions when the connection closes', () => {
+        const closeHandler = (mockConnectionManager.on as jest.Mock).mock.calls
+          .find(call => call[0] === 'close')[1];
+        const agentsChanged = jest.fn();
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        client.on('agents-changed', agentsChanged);
+
+        closeHandler({ code: 1006, reason: '' });
+
+        expect(client.getAgentSessions()).toEqual([]);
+        expect(agentsChanged).toHaveBeenCalledWith([]);
+      });
+    });
+
+    describe('createMessage()', () => {
+      let messageHandler: (message: any) => void;
+
+      const request: CreateMessageRequest = {
+        messages: [{ role: 'user', content: { type: 'text', text: 'Summarize: the board has 3 cards' } }],
+        maxTokens: 100
+      };
+
+      const findSamplingRequest = () => mockConnectionManager.send.mock.calls
+        .map(([sent]) => sent as OutgoingRequestMessage)
+        .find(sent => sent.method === 'sampling/createMessage');
+
+      beforeEach(() => {
+        const onCalls = (mockConnectionManager.on as jest.Mock).mock.calls;
+        messageHandler = onCalls.find(call => call[0] === 'message')[1];
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+      });
+
+      it('should send sampling/createMessage to the latest agent and resolve with its result', async () => {
+        jest.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        jest.setSystemTime(new Date('2025-01-01T00:01:00Z'));
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        const completion = client.createMessage(request);
+
+        const sent = findSamplingRequest();
+        expect(sent).toEqual({
+          jsonrpc: '2.0',
+          id: expect.any(String),
+          method: 'sampling/createMessage',
+          params: request,
+          agentSessionId: 'agent-b'
+        });
+
+        const result: CreateMessageResult = {
+          role: 'assistant',
+          content: { type: 'text', text: 'Three cards.' },
+          model: 'claude-sonnet',
+          stopReason: 'endTurn'
+        };
+        messageHandler({ jsonrpc: '2.0', id: sent!.id, result, agentSessionId: 'agent-b' });
+
+        await expect(completion).resolves.toEqual(result);
+      });
+
+      it('should send to a chosen agent session', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        client.createMessage(request, { agentSessionId: 'agent-a' }).catch(() => {});
+
+        expect(findSamplingRequest()?.agentSessionId).toBe('agent-a');
+        await expect(client.createMessage(request, { agentSessionId: 'agent-z' }))
+          .rejects.toThrow("Agent session 'agent-z' is not attached");
+      });
+
+      it('should reject unless bridged', async () => {
+        mockConnectionManager.getStatus.mockReturnValue('connected');
+
+        await expect(client.createMessage(request)).rejects.toThrow("createMessage requires an attached agent (status is 'connected')");
+        expect(findSamplingRequest()).toBeUndefined();
+      });
+
+      it('should reject when the agent declines the request', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        const completion = client.createMessage(request);
+        messageHandler({
+          jsonrpc: '2.0',
+          id: findSamplingRequest()!.id,
+          error: { code: -1, message: 'User rejected sampling request' },
+          agentSessionId: 'agent-a'
+        });
+
+        await expect(completion).rejects.toMatchObject({ message: 'User rejected sampling request', code: -1 });
+      });
+
+      it('should reject malformed results', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        const completion = client.createMessage(request);
+        messageHandler({ jsonrpc: '2.0', id: findSamplingRequest()!.id, result: { text: 'no model' } });
+
+        await expect(completion).rejects.toThrow('Invalid sampling result from agent');
+      });
+
+      it('should time out after samplingTimeoutMs unless overridden', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        const defaultTimeout = client.createMessage(request);
+        const shortTimeout = client.createMessage(request, { timeoutMs: 1000 });
+
+        jest.advanceTimersByTime(1000);
+        await expect(shortTimeout).rejects.toThrow("Request 'sampling/createMessage' timed out after 1000ms");
+
+        jest.advanceTimersByTime(59000);
+        await expect(defaultTimeout).rejects.toThrow("Request 'sampling/createMessage' timed out after 60000ms");
+      });
+
+      it('should reject pending requests when the agent disconnects', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        const completion = client.createMessage(request);
+        messageHandler({ type: 'agent-disconnected', agentSessionId: 'agent-a' });
+
+        await expect(completion).rejects.toThrow("Request 'sampling/createMessage' failed: Agent disconnected");
+      });
+    });
+
+    describe('agent notifications', () => {
+      let messageHandler: (message: any) => void;
+
+      const sentLogMessages = () => mockConnectionManager.send.mock.calls
+        .map(([sent]) => sent as LoggingMessageNotification)
+        .filter(sent => sent.method === 'notifications/message');
+
+      beforeEach(() => {
+        const onCalls = (mockConnectionManager.on as jest.Mock).mock.calls;
+        messageHandler = onCalls.filter(call => call[0] === 'message').pop()[1];
+        mockConnectionManager.getStatus.mockReturnValue('bridged');
+      });
+
+      it('should send app events to every attached agent', () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+
+        client.notifyAgent('document-switched', { documentId: 'doc-42' });
+
+        expect(sentLogMessages()).toEqual(['agent-a', 'agent-b'].map(agentSessionId => ({
+          jsonrpc: '2.0',
+          method: 'notifications/message',
+          params: { level: 'info', logger: 'snappjack', data: { event: 'document-switched', payload: { documentId: 'doc-42' } } },
+          agentSessionId
+        })));
+      });
+
+      it('should honor each agent\'s logging/setLevel', async () => {
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+        messageHandler({ jsonrpc: '2.0', id: 'req-1', method: 'logging/setLevel', params: { level: 'warning' }, agentSessionId: 'agent-a' });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 'req-1', result: {}, agentSessionId: 'agent-a' });
+
+        client.sendLogMessage('info', 'Autosaved', 'editor');
+        client.sendLogMessage('error', 'Export failed', 'editor');
+
+        expect(sentLogMessages().map(sent => [sent.agentSessionId, sent.params.data])).toEqual([
+          ['agent-b', 'Autosaved'],
+          ['agent-a', 'Export failed'],
+          ['agent-b', 'Export failed']
+        ]);
+      });
+
+      it('should reject unknown log levels', async () => {
+        messageHandler({ jsonrpc: '2.0', id: 'req-1', method: 'logging/setLevel', params: { level: 'verbose' }, agentSessionId: 'agent-a' });
+        await flushPromiseQueue();
+
+        expect(mockConnectionManager.send).toHaveBeenCalledWith(expect.objectContaining({
+          id: 'req-1',
+          error: { code: -32602, message: 'Invalid log level: verbose' }
+        }));
+        expect(() => client.sendLogMessage('verbose' as LoggingLevel, 'x')).toThrow("Invalid log level 'verbose'");
+      });
+
+      it('should buffer notifications until an agent attaches', () => {
+        mockConnectionManager.getStatus.mockReturnValue('connected');
+
+        client.notifyAgent('export-finished');
+        client.sendLogMessage('warning', 'Low disk space');
+        expect(sentLogMessages()).toEqual([]);
+
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        expect(sentLogMessages().map(sent => sent.params)).toEqual([
+          { level: 'info', logger: 'snappjack', data: { event: 'export-finished' } },
+          { level: 'warning', data: 'Low disk space' }
+        ]);
+
+        // Delivered once only
+        messageHandler({ type: 'agent-connected', agentSessionId: 'agent-b' });
+        expect(sentLogMessages()).toHaveLength(2);
+      });
+
+      it('should drop the oldest buffered notifications beyond maxBufferedNotifications', () => {
+        const { client: bufferedClient, handler: bufferedHandler } = createConfiguredClient({ maxBufferedNotifications: 2 });
+        mockConnectionManager.getStatus.mockReturnValue('connected');
+
+        ['one', 'two', 'three'].forEach(event => bufferedClient.notifyAgent(event));
+        bufferedHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        expect(sentLogMessages().map(sent => (sent.params.data as { event: string }).event)).toEqual(['two', 'three']);
+        expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('Notification buffer full'));
+      });
+
+      it('should not buffer when maxBufferedNotifications is 0', () => {
+        const { client: unbufferedClient, handler: unbufferedHandler } = createConfiguredClient({ maxBufferedNotifications: 0 });
+        mockConnectionManager.getStatus.mockReturnValue('connected');
+
+        unbufferedClient.notifyAgent('export-finished');
+        unbufferedHandler({ type: 'agent-connected', agentSessionId: 'agent-a' });
+
+        expect(sentLogMessages()).toEqual([]);
+      });
+    });
   });
 
   describe('7. Event Forwarding and Error Handling', () => {
@@ -850,7 +3344,7 @@ describe('SnappjackClient', () => {
         const mockTools = [
           { name: 'tool1', description: 'Test tool 1', inputSchema: { type: 'object' as const } }
         ];
-        mockToolRegistry.getAll.mockReturnValue(mockTools);
+        mockToolRegistry.getEnabled.mockReturnValue(mockTools);
 
         openHandler();
 
@@ -876,6 +3370,29 @@ describe('SnappjackClient', () => {
 
         expect(emitSpy).toHaveBeenCalledWith('error', testError);
       });
+
+      it('should forward heartbeat latency from ConnectionManager', () => {
+        const latencyListener = jest.fn();
+        client.on('latency', latencyListener);
+        const latencyHandler = (mockConnectionManager.on as jest.Mock).mock.calls
+          .find(call => call[0] === 'latency')[1];
+
+        latencyHandler(42);
+
+        expect(latencyListener).toHaveBeenCalledWith({ latencyMs: 42 });
+      });
+
+      it('should forward dropped outbox messages from ConnectionManager', () => {
+        const droppedListener = jest.fn();
+        client.on('outbox-dropped', droppedListener);
+        const droppedHandler = (mockConnectionManager.on as jest.Mock).mock.calls
+          .find(call => call[0] === 'outbox-dropped')[1];
+        const event = { reason: 'expired', messages: [{ jsonrpc: '2.0', id: 'call-1', result: {} }] };
+
+        droppedHandler(event);
+
+        expect(droppedListener).toHaveBeenCalledWith(event);
+      });
     });
 
     describe('error handling during operations', () => {
@@ -13,6 +13,13 @@ import { EventEmitter, EventListener } from '../core/event-emitter';
 import { DEFAULT_SNAPPJACK_SERVER_URL } from '../core/constants';
 import { ConnectionManager } from './connection-manager';
 import { ToolRegistry } from './tool-registry';
+import { ResourceRegistry } from './resource-registry';
+import { PromptRegistry } from './prompt-registry';
+import { OutgoingRequests } from './outgoing-requests';
+import { ProgressReporter } from './progress-reporter';
+import { ToolAccessPolicy } from './tool-access-policy';
+import { ToolExecutionQueue } from './tool-execution-queue';
+import { RateLimiter } from './rate-limiter';
 import {
   SnappjackConfig,
   Logger,
@@ -25,14 +32,85 @@ import {
   ConnectionData,
   ToolCallMessage,
   ToolResponse,
+  StructuredToolResponse,
   AgentMessage,
   ErrorResponse,
   JsonRpcResponse,
   ToolRegistrationMessage,
   IncomingMessage,
-  SnappjackError
+  SnappjackError,
+  ToolTimeoutEvent,
+  ToolCancelledEvent,
+  AgentSession,
+  ValidationResult,
+  ToolAccessDecision,
+  ToolCallDeniedEvent,
+  ToolHandlerContext,
+  ToolMiddleware,
+  ToolMiddlewareContext,
+  CancelledNotificationMessage,
+  ToolQueueMetrics,
+  ToolRateLimit,
+  RateLimitedEvent,
+  JsonRpcRequestMessage,
+  MethodHandler,
+  MethodHandlerContext,
+  Resource,
+  ResourceTemplate,
+  ResourceDefinition,
+  ResourceTemplateDefinition,
+  ReadResourceResult,
+  Prompt,
+  PromptDefinition,
+  GetPromptResult,
+  ElicitationSchema,
+  ElicitResult,
+  CreateMessageRequest,
+  CreateMessageOptions,
+  CreateMessageResult,
+  LoggingLevel,
+  LoggingMessageNotification,
+  OutboxDroppedEvent
 } from '../core/types';
 
+type HandlerOutcome<T> =
+  | { status: 'completed'; result: T }
+  | { status: 'timed-out' }
+  | { status: 'cancelled' };
+
+// Batch bursts of tool changes into a single registration update
+const TOOLS_REGISTRATION_DEBOUNCE_MS = 50;
+
+// Lists agents are told to refresh after a registration update
+type ListKind = 'tools' | 'resources' | 'prompts';
+
+// MCP log severities in increasing order, for logging/setLevel filtering
+const LOGGING_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+/**
+ * Create an error that method dispatch answers with the given JSON-RPC code
+ */
+function createMethodError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+type ConfirmationOutcome =
+  | { status: 'approved' }
+  | { status: 'edited'; arguments: unknown }
+  | { status: 'denied'; reason: string }
+  | { status: 'cancelled' };
+
+interface InFlightToolCall {
+  key: string;
+  requestId: string | number;
+  agentSessionId: string;
+  toolName: string;
+  startedAt: number;
+  controller: AbortController;
+  cancelled: boolean;
+  pauseTimeout?: () => () => void;  // Stops the handler timeout; call the returned function to resume it
+}
+
 /**
  * Snappjack SDK Client
  * 
@@ -54,11 +132,26 @@ export class Snappjack extends EventEmitter {
   private config: InternalConfig;
   private connectionManager: ConnectionManager;
   private toolRegistry: ToolRegistry;
+  private resourceRegistry: ResourceRegistry;
+  private promptRegistry: PromptRegistry;
+  private outgoingRequests: OutgoingRequests;
+  private toolAccessPolicy: ToolAccessPolicy;
+  private executionQueue: ToolExecutionQueue;
+  private rateLimiter: RateLimiter = new RateLimiter();
   private logger: Logger;
   
   // Agent session tracking
-  private currentAgentSessionId: string | null = null;
-  private lastToolCallAgentSessionId: string | undefined;
+  private agentSessions: Map<string, AgentSession> = new Map();
+  private agentLogLevels: Map<string, LoggingLevel> = new Map();
+  private bufferedNotifications: Array<LoggingMessageNotification['params']> = [];
+  private inFlightCalls: Map<string, InFlightToolCall> = new Map();
+  private middleware: ToolMiddleware[] = [];
+  private methodHandlers: Map<string, MethodHandler> = new Map();
+  private builtinMethods: Set<string> = new Set();
+  private toolsRegistrationTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingListChanges: Set<ListKind> = new Set();
+  private resourcesAnnounced = false;  // Once sent, empty lists must be sent too so the bridge clears them
+  private promptsAnnounced = false;
   private currentRequireAuthHeader: boolean;
   private requireAuthHeaderExplicitlySet: boolean;
 
@@ -98,9 +191,22 @@ export class Snappjack extends EventEmitter {
       autoReconnect: true,
       reconnectInterval: 5000,
       maxReconnectAttempts: 10,
+      maxReconnectDelay: 30000,
+      backoff: 'exponential' as const,
       tools: [],
       logger: this.defaultLogger,
       requireAuthHeader: true,  // Default to secure behavior
+      defaultToolTimeoutMs: 60000,
+      progressThrottleMs: 100,
+      toolPermissions: {},
+      confirmationTimeoutMs: 60000,
+      outputValidation: 'warn' as const,
+      maxConcurrency: Infinity,
+      maxQueueLength: 100,
+      elicitationTimeoutMs: 300000,
+      samplingTimeoutMs: 60000,
+      maxBufferedNotifications: 100,
+      maxMissedHeartbeats: 2,
     };
 
     // Track whether requireAuthHeader was explicitly provided by the user
@@ -133,12 +239,21 @@ export class Snappjack extends EventEmitter {
     }
     this.config.serverUrl = this.config.serverUrl.replace(/^http/, 'ws');
 
+    if (this.config.rateLimit) {
+      RateLimiter.validate(this.config.rateLimit, 'the config');
+    }
+
     this.logger = this.config.logger;
     this.currentRequireAuthHeader = this.config.requireAuthHeader;
 
     // Initialize components
     this.toolRegistry = new ToolRegistry(this.logger);
+    this.resourceRegistry = new ResourceRegistry(this.logger);
+    this.promptRegistry = new PromptRegistry(this.logger);
+    this.toolAccessPolicy = new ToolAccessPolicy(this.config.toolPermissions);
+    this.executionQueue = new ToolExecutionQueue(this.config.maxConcurrency, this.config.maxQueueLength);
     this.connectionManager = new ConnectionManager(this.createConnectionConfig(), this.logger);
+    this.outgoingRequests = new OutgoingRequests(message => this.connectionManager.send(message));
     
     // Setup event listeners
     this.setupEventListeners();
@@ -146,6 +261,7 @@ export class Snappjack extends EventEmitter {
     // Validate config and initialize tools
     this.validateConfig();
     this.initializeTools();
+    this.registerBuiltinMethods();
   }
 
   /**
@@ -180,7 +296,12 @@ export class Snappjack extends EventEmitter {
       serverUrl: this.config.serverUrl,
       autoReconnect: this.config.autoReconnect,
       reconnectInterval: this.config.reconnectInterval,
-      maxReconnectAttempts: this.config.maxReconnectAttempts
+      maxReconnectAttempts: this.config.maxReconnectAttempts,
+      maxReconnectDelay: this.config.maxReconnectDelay,
+      backoff: this.config.backoff,
+      heartbeatInterval: this.config.heartbeatInterval,
+      maxMissedHeartbeats: this.config.maxMissedHeartbeats,
+      outbox: this.config.outbox
     };
   }
 
@@ -201,9 +322,27 @@ export class Snappjack extends EventEmitter {
       this.emit('error', error);
     });
 
+    this.connectionManager.on('latency', (latencyMs: number) => {
+      this.emit('latency', { latencyMs });
+    });
+
     this.connectionManager.on('open', () => {
+      this.clearToolsRegistrationTimer();
       this.sendToolsRegistration();
     });
+
+    this.connectionManager.on('outbox-dropped', (event: OutboxDroppedEvent) => {
+      this.emit('outbox-dropped', event);
+    });
+
+    this.connectionManager.on('close', () => {
+      // With an outbox, results of calls still running are delivered after reconnecting
+      if (!this.config.outbox) {
+        this.cancelToolCalls('Connection closed');
+      }
+      this.outgoingRequests.rejectAll('Connection closed');
+      this.clearAgentSessions();
+    });
   }
 
   /**
@@ -228,7 +367,7 @@ export class Snappjack extends EventEmitter {
   private initializeTools(): void {
     if (this.config.tools) {
       this.config.tools.forEach(tool => {
-        this.registerTool(tool);
+        this.addTool(tool);
       });
     }
   }
@@ -237,6 +376,260 @@ export class Snappjack extends EventEmitter {
    * Register a tool that your app exposes to AI agents
    */
   public registerTool(tool: Tool): void {
+    this.addTool(tool);
+    this.scheduleToolsRegistration();
+  }
+
+  /**
+   * Remove a tool so agents can no longer call it
+   * @returns Whether the tool was registered
+   */
+  public unregisterTool(name: string): boolean {
+    const removed = this.toolRegistry.unregister(name);
+    if (removed) {
+      this.logger.log(`🛠️ Snappjack: Unregistered tool '${name}'`);
+      this.scheduleToolsRegistration();
+    }
+    return removed;
+  }
+
+  /**
+   * Replace an already registered tool (definition and handler) with a new version
+   */
+  public replaceTool(tool: Tool): void {
+    if (!this.toolRegistry.has(tool.name)) {
+      throw new Error(`Cannot replace tool '${tool.name}': tool is not registered`);
+    }
+    this.addTool(tool);
+    this.scheduleToolsRegistration();
+  }
+
+  /**
+   * Replace the complete set of registered tools
+   */
+  public setTools(tools: Tool[]): void {
+    this.toolRegistry.clear();
+    tools.forEach(tool => this.addTool(tool));
+    this.scheduleToolsRegistration();
+  }
+
+  /**
+   * Enable or disable a tool based on app state. Disabled tools are hidden
+   * from agents and calls to them are answered as currently unavailable.
+   */
+  public setToolEnabled(name: string, enabled: boolean): void {
+    if (!this.toolRegistry.setEnabled(name, enabled)) {
+      throw new Error(`Cannot ${enabled ? 'enable' : 'disable'} tool '${name}': tool is not registered`);
+    }
+    this.logger.log(`🛠️ Snappjack: Tool '${name}' ${enabled ? 'enabled' : 'disabled'}`);
+    this.scheduleToolsRegistration();
+  }
+
+  /**
+   * Re-announce tools to the bridge, e.g. after app state behind an enabled predicate changed
+   */
+  public refreshTools(): void {
+    this.scheduleToolsRegistration();
+  }
+
+  /**
+   * Add middleware that runs around argument validation and handler execution
+   * for every tool call, in the order it was added. Middleware can rewrite
+   * context.arguments, short-circuit by returning a result without calling
+   * next(), or transform the result next() resolves to.
+   */
+  public use(middleware: ToolMiddleware): void {
+    if (typeof middleware !== 'function') {
+      throw new Error('Tool middleware must be a function');
+    }
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Register a resource agents can read without a tool call
+   */
+  public registerResource(resource: Resource): void {
+    this.resourceRegistry.register(resource);
+    this.scheduleToolsRegistration('resources');
+  }
+
+  /**
+   * Register a resource template covering a family of URIs, e.g. "doc://{id}"
+   */
+  public registerResourceTemplate(template: ResourceTemplate): void {
+    this.resourceRegistry.registerTemplate(template);
+    this.scheduleToolsRegistration('resources');
+  }
+
+  /**
+   * Remove a resource
+   * @returns Whether the resource was registered
+   */
+  public unregisterResource(uri: string): boolean {
+    const removed = this.resourceRegistry.unregister(uri);
+    if (removed) {
+      this.scheduleToolsRegistration('resources');
+    }
+    return removed;
+  }
+
+  /**
+   * Remove a resource template
+   * @returns Whether the template was registered
+   */
+  public unregisterResourceTemplate(uriTemplate: string): boolean {
+    const removed = this.resourceRegistry.unregisterTemplate(uriTemplate);
+    if (removed) {
+      this.scheduleToolsRegistration('resources');
+    }
+    return removed;
+  }
+
+  /**
+   * Get all registered resources (without handlers)
+   */
+  public getResources(): ResourceDefinition[] {
+    return this.resourceRegistry.getAll();
+  }
+
+  /**
+   * Get all registered resource templates (without handlers)
+   */
+  public getResourceTemplates(): ResourceTemplateDefinition[] {
+    return this.resourceRegistry.getTemplates();
+  }
+
+  /**
+   * Register a prompt template agents can offer to the user
+   */
+  public registerPrompt(prompt: Prompt): void {
+    this.promptRegistry.register(prompt);
+    this.scheduleToolsRegistration('prompts');
+  }
+
+  /**
+   * Remove a prompt
+   * @returns Whether the prompt was registered
+   */
+  public unregisterPrompt(name: string): boolean {
+    const removed = this.promptRegistry.unregister(name);
+    if (removed) {
+      this.scheduleToolsRegistration('prompts');
+    }
+    return removed;
+  }
+
+  /**
+   * Get all registered prompts (without handlers)
+   */
+  public getPrompts(): PromptDefinition[] {
+    return this.promptRegistry.getAll();
+  }
+
+  /**
+   * Tell attached agents that a resource's content changed so they can read it again
+   */
+  public notifyResourceChanged(uri: string): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    this.agentSessions.forEach(session => {
+      try {
+        this.connectionManager.send({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri },
+          agentSessionId: session.agentSessionId
+        });
+      } catch (error) {
+        this.logger.warn(`⚠️ Snappjack: Failed to send resources/updated: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Handle a custom JSON-RPC method sent by agents. The handler's return value
+   * becomes the result; requests for methods without a handler get -32601.
+   * Registering a method again replaces its handler.
+   */
+  public registerMethodHandler(method: string, handler: MethodHandler): void {
+    if (typeof handler !== 'function') {
+      throw new Error(`Method handler for '${method}' must be a function`);
+    }
+    if (method === 'tools/call' || this.builtinMethods.has(method)) {
+      throw new Error(`Cannot register a handler for built-in method '${method}'`);
+    }
+    this.methodHandlers.set(method, handler);
+    this.logger.log(`🛠️ Snappjack: Registered handler for method '${method}'`);
+  }
+
+  /**
+   * Ask an attached agent's model for a completion (MCP sampling/createMessage).
+   * Only available while bridged; rejects if the agent declines, errors or times out.
+   */
+  public async createMessage(request: CreateMessageRequest, options: CreateMessageOptions = {}): Promise<CreateMessageResult> {
+    const status = this.connectionManager.getStatus();
+    if (status !== 'bridged') {
+      throw new Error(`createMessage requires an attached agent (status is '${status}')`);
+    }
+
+    const session = options.agentSessionId
+      ? this.agentSessions.get(options.agentSessionId)
+      : this.getLatestAgentSession();
+    if (!session) {
+      throw new Error(options.agentSessionId ? `Agent session '${options.agentSessionId}' is not attached` : 'No agent is attached');
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.config.samplingTimeoutMs;
+    this.logger.log(`🧠 Snappjack: Requesting completion from agent ${session.agentSessionId}`);
+
+    const result = await this.outgoingRequests.request<CreateMessageResult>(
+      session.agentSessionId,
+      'sampling/createMessage',
+      { ...request },
+      { timeoutMs, signal: options.signal }
+    );
+
+    if (!result || typeof result.model !== 'string' || !result.content || typeof result.content.type !== 'string') {
+      throw new Error(`Invalid sampling result from agent: ${JSON.stringify(result)}`);
+    }
+    return result;
+  }
+
+  /**
+   * Tell attached agents about an app event, e.g. the user switched documents.
+   * Sent as an MCP notifications/message with data { event, payload }.
+   */
+  public notifyAgent(event: string, payload?: unknown): void {
+    this.sendLogMessage('info', { event, ...(payload !== undefined && { payload }) }, 'snappjack');
+  }
+
+  /**
+   * Send an MCP log message to attached agents, honoring each agent's logging/setLevel.
+   * Messages sent while no agent is attached are buffered and delivered to the next one.
+   */
+  public sendLogMessage(level: LoggingLevel, data: unknown, logger?: string): void {
+    if (!LOGGING_LEVELS.includes(level)) {
+      throw new Error(`Invalid log level '${level}'`);
+    }
+
+    const params: LoggingMessageNotification['params'] = { level, ...(logger && { logger }), data };
+    if (!this.isConnected() || this.agentSessions.size === 0) {
+      this.bufferNotification(params);
+      return;
+    }
+
+    this.agentSessions.forEach(session => this.deliverLogMessage(session.agentSessionId, params));
+  }
+
+  /**
+   * Add a tool to the registry without announcing it
+   */
+  private addTool(tool: Tool): void {
+    if (tool.rateLimit) {
+      RateLimiter.validate(tool.rateLimit, `tool '${tool.name}'`);
+    }
     this.toolRegistry.register(tool);
     
     // Auto-register tool handler if provided
@@ -256,6 +649,11 @@ export class Snappjack extends EventEmitter {
    * Disconnect from Snappjack server
    */
   public async disconnect(): Promise<void> {
+    this.cancelToolCalls('Client disconnected');
+    this.outgoingRequests.rejectAll('Client disconnected');
+    this.clearAgentSessions();
+    this.clearToolsRegistrationTimer();
+    this.pendingListChanges.clear();
     return this.connectionManager.disconnect();
   }
 
@@ -266,6 +664,20 @@ export class Snappjack extends EventEmitter {
     return this.connectionManager.getStatus();
   }
 
+  /**
+   * Get the agent sessions currently attached through the bridge
+   */
+  public getAgentSessions(): AgentSession[] {
+    return Array.from(this.agentSessions.values()).map(session => ({ ...session }));
+  }
+
+  /**
+   * Get the state of the tool execution queue
+   */
+  public getQueueMetrics(): ToolQueueMetrics {
+    return this.executionQueue.getMetrics();
+  }
+
   /**
    * Get all registered tools (without handlers)
    */
@@ -286,7 +698,7 @@ export class Snappjack extends EventEmitter {
    */
   private sendToolsRegistration(): void {
     try {
-      const tools = this.getTools();
+      const tools = this.toolRegistry.getEnabled();
       this.logger.log(`🛠️ Snappjack: Registering ${tools.length} tools: ${tools.map(t => t.name).join(', ')}`);
 
       const message: ToolRegistrationMessage = {
@@ -294,6 +706,17 @@ export class Snappjack extends EventEmitter {
         tools: tools
       };
 
+      // Bridges without resource or prompt support keep receiving the original message shape
+      if (this.resourceRegistry.size() > 0 || this.resourcesAnnounced) {
+        message.resources = this.resourceRegistry.getAll();
+        message.resourceTemplates = this.resourceRegistry.getTemplates();
+        this.resourcesAnnounced = true;
+      }
+      if (this.promptRegistry.size() > 0 || this.promptsAnnounced) {
+        message.prompts = this.promptRegistry.getAll();
+        this.promptsAnnounced = true;
+      }
+
       this.logger.log(`🛠️ Snappjack: Tools registration message: ${JSON.stringify(message)}`);
       this.connectionManager.send(message);
       this.logger.log('✅ Snappjack: Tools registration sent successfully');
@@ -303,6 +726,64 @@ export class Snappjack extends EventEmitter {
     }
   }
 
+  /**
+   * Re-announce tools, resources and prompts after a change. Registration happens on connect anyway,
+   * so this only matters while connected.
+   * @param changed - Which list attached agents should refresh
+   */
+  private scheduleToolsRegistration(changed: ListKind = 'tools'): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    this.pendingListChanges.add(changed);
+    this.clearToolsRegistrationTimer();
+    this.toolsRegistrationTimer = setTimeout(() => {
+      this.toolsRegistrationTimer = null;
+      const changedLists = Array.from(this.pendingListChanges);
+      this.pendingListChanges.clear();
+      if (this.isConnected()) {
+        this.sendToolsRegistration();
+        changedLists.forEach(list => this.sendListChanged(list));
+      }
+    }, TOOLS_REGISTRATION_DEBOUNCE_MS);
+  }
+
+  /**
+   * Clear a pending tools registration update
+   */
+  private clearToolsRegistrationTimer(): void {
+    if (this.toolsRegistrationTimer) {
+      clearTimeout(this.toolsRegistrationTimer);
+      this.toolsRegistrationTimer = null;
+    }
+  }
+
+  /**
+   * Tell attached agents to refresh a list
+   */
+  private sendListChanged(list: ListKind): void {
+    this.agentSessions.forEach(session => {
+      try {
+        this.connectionManager.send({
+          jsonrpc: '2.0',
+          method: `notifications/${list}/list_changed` as const,
+          agentSessionId: session.agentSessionId
+        });
+      } catch (error) {
+        this.logger.warn(`⚠️ Snappjack: Failed to send ${list}/list_changed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  /**
+   * Whether the WebSocket to the bridge is currently usable
+   */
+  private isConnected(): boolean {
+    const status = this.getStatus();
+    return status === 'connected' || status === 'bridged';
+  }
+
   /**
    * Send initial auth requirement if explicitly specified by user and different from server value
    */
@@ -351,6 +832,12 @@ export class Snappjack extends EventEmitter {
         }
       } else if (this.isToolCallRequest(message)) {
         this.handleToolCall(message as ToolCallMessage);
+      } else if (this.isCancelledNotification(message)) {
+        this.handleCancelledNotification(message);
+      } else if (this.isJsonRpcRequest(message) && (message.id !== undefined || this.methodHandlers.has(message.method))) {
+        this.handleMethodRequest(message);
+      } else if (this.isJsonRpcResponse(message) && this.outgoingRequests.handleResponse(message)) {
+        this.logger.log(`📬 Snappjack: Received response to request ${message.id}`);
       } else {
         this.logger.log('💬 Snappjack: Handling generic message');
         // Emit generic message event
@@ -362,136 +849,420 @@ export class Snappjack extends EventEmitter {
   }
 
   /**
-   * Handle connection info message
+   * Register the MCP methods the SDK answers itself
    */
-  private handleConnectionInfo(message: any): void {
-    this.logger.log(`🔗 Snappjack: Received connection info with userApiKey: ${message.userApiKey ? 'present' : 'missing'}`);
+  private registerBuiltinMethods(): void {
+    const builtins: Array<[string, MethodHandler]> = [
+      ['ping', () => ({})],
+      ['tools/list', () => ({ tools: this.toolRegistry.getEnabled() })],
+      ['resources/list', () => ({ resources: this.resourceRegistry.getAll() })],
+      ['resources/templates/list', () => ({ resourceTemplates: this.resourceRegistry.getTemplates() })],
+      ['resources/read', (params, context) => this.readResource(params, context)],
+      ['prompts/list', () => ({ prompts: this.promptRegistry.getAll() })],
+      ['prompts/get', (params, context) => this.getPrompt(params, context)],
+      ['logging/setLevel', (params, context) => this.setAgentLogLevel(params, context)]
+    ];
 
-    if (message.userApiKey) {
-      // Get the server's current auth requirement value
-      const serverAuthRequirement = message.requireAuthHeader ?? true;
+    builtins.forEach(([method, handler]) => {
+      this.methodHandlers.set(method, handler);
+      this.builtinMethods.add(method);
+    });
+  }
 
-      // Check if we need to update the auth requirement based on user preference vs server value
-      this.sendInitialAuthRequirementIfNeeded(serverAuthRequirement);
+  /**
+   * Dispatch a JSON-RPC request or notification to its method handler
+   */
+  private async handleMethodRequest(message: JsonRpcRequestMessage): Promise<void> {
+    const isNotification = message.id === undefined;
+    const handler = this.methodHandlers.get(message.method);
 
-      this.logger.log('🔑 Snappjack: Emitting connection-info-updated event');
+    if (message.method === 'tools/call') {
+      // Well-formed tool calls never get here
+      this.sendMethodError(message, {
+        code: -32602,
+        message: 'Invalid params',
+        data: 'tools/call requires params.name'
+      });
+      return;
+    }
 
-      // Build MCP endpoint URL using the configured server URL
-      const baseUrl = this.config.serverUrl
-        .replace(/^ws:/, 'http:')
-        .replace(/^wss:/, 'https:');
-      const mcpEndpoint = `${baseUrl}/mcp/${this.config.snappId}/${this.config.userId}`;
+    if (!handler) {
+      this.logger.warn(`❓ Snappjack: No handler for method '${message.method}'`);
+      this.sendMethodError(message, {
+        code: -32601,
+        message: 'Method not found',
+        data: `Method '${message.method}' is not supported`
+      });
+      return;
+    }
 
-      const eventData: ConnectionData = {
-        userApiKey: message.userApiKey,
-        snappId: this.config.snappId,
-        userId: this.config.userId,
-        mcpEndpoint: mcpEndpoint,
-        requireAuthHeader: serverAuthRequirement
-      };
+    const context: MethodHandlerContext = {
+      method: message.method,
+      requestId: message.id,
+      agentSessionId: message.agentSessionId,
+      session: this.getCallerSession(message.agentSessionId, Date.now())
+    };
 
-      this.logger.log(`🔑 Snappjack: Event data: ${JSON.stringify(eventData)}`);
-      this.emit('connection-info-updated', eventData);
-      // Keep backward compatibility
-      this.emit('user-api-key-generated', eventData);
-    } else {
-      this.logger.warn('⚠️ Snappjack: Connection info message missing userApiKey');
+    try {
+      const result = await handler(message.params, context);
+      if (!isNotification) {
+        this.sendMethodResult(message, (result ?? {}) as { [key: string]: unknown });
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`❌ Snappjack: Method '${message.method}' failed: ${errorMessage}`);
+      if (!isNotification) {
+        const code = (error as { code?: unknown } | null)?.code;
+        this.sendMethodError(message, {
+          code: typeof code === 'number' ? code : -32603,
+          message: typeof code === 'number' ? errorMessage : 'Internal error',
+          ...(typeof code !== 'number' && { data: errorMessage })
+        });
+      }
     }
   }
 
   /**
-   * Handle agent connected message
+   * Answer logging/setLevel by remembering the agent's minimum level
    */
-  private handleAgentConnected(message: AgentMessage): void {
-    this.logger.log(`🤖 Snappjack: Agent connected with session ID: ${message.agentSessionId}`);
-    this.currentAgentSessionId = message.agentSessionId;
-    this.connectionManager.updateStatus('bridged');
-    this.logger.log('📊 Snappjack: Status updated to bridged');
-    this.emit('agent-connected', { agentSessionId: message.agentSessionId });
+  private setAgentLogLevel(params: unknown, context: MethodHandlerContext): { [key: string]: unknown } {
+    const level = (params as { level?: unknown } | undefined)?.level;
+    if (!LOGGING_LEVELS.includes(level as LoggingLevel)) {
+      throw createMethodError(-32602, `Invalid log level: ${String(level)}`);
+    }
+
+    this.agentLogLevels.set(context.agentSessionId, level as LoggingLevel);
+    this.logger.log(`📝 Snappjack: Agent ${context.agentSessionId} set log level to '${level}'`);
+    return {};
   }
 
   /**
-   * Handle agent disconnected message
+   * Send a log message to one agent unless it is below the agent's level
    */
-  private handleAgentDisconnected(message: AgentMessage): void {
-    this.logger.log(`🤖 Snappjack: Agent disconnected with session ID: ${message.agentSessionId}`);
-    
-    if (this.currentAgentSessionId === message.agentSessionId) {
-      this.logger.log('🤖 Snappjack: Current agent disconnected, updating status');
-      this.currentAgentSessionId = null;
-      this.connectionManager.updateStatus('connected');
-      this.logger.log('📊 Snappjack: Status updated to connected');
-    } else {
-      this.logger.log('🤖 Snappjack: Different agent disconnected, keeping current status');
+  private deliverLogMessage(agentSessionId: string, params: LoggingMessageNotification['params']): void {
+    const minimumLevel = this.agentLogLevels.get(agentSessionId);
+    if (minimumLevel && LOGGING_LEVELS.indexOf(params.level) < LOGGING_LEVELS.indexOf(minimumLevel)) {
+      return;
+    }
+
+    try {
+      this.connectionManager.send({
+        jsonrpc: '2.0',
+        method: 'notifications/message',
+        params,
+        agentSessionId
+      });
+    } catch (error) {
+      this.logger.warn(`⚠️ Snappjack: Failed to send log message: ${error instanceof Error ? error.message : String(error)}`);
     }
-    
-    this.emit('agent-disconnected', { agentSessionId: message.agentSessionId });
   }
 
   /**
-   * Handle tool call message
+   * Hold a log message until an agent attaches, dropping the oldest beyond maxBufferedNotifications
    */
-  private async handleToolCall(message: ToolCallMessage): Promise<void> {
-    // Store the agentSessionId for use in responses
-    this.lastToolCallAgentSessionId = message.agentSessionId;
-    
-    const toolName = message.params.name;
-    const handler = this.toolRegistry.getHandler(toolName);
+  private bufferNotification(params: LoggingMessageNotification['params']): void {
+    const limit = this.config.maxBufferedNotifications;
+    if (limit <= 0) {
+      return;
+    }
 
-    if (!handler || !this.toolRegistry.has(toolName)) {
-      // Tool not found - this is a protocol error
-      const errorResponse: ErrorResponse = {
-        code: -32601,
-        message: 'Method not found',
+    this.bufferedNotifications.push(params);
+    if (this.bufferedNotifications.length > limit) {
+      this.bufferedNotifications.shift();
+      this.logger.warn('⚠️ Snappjack: Notification buffer full, dropped the oldest message');
+    }
+  }
+
+  /**
+   * Deliver buffered log messages to a newly attached agent
+   */
+  private flushBufferedNotifications(agentSessionId: string): void {
+    const buffered = this.bufferedNotifications;
+    this.bufferedNotifications = [];
+    if (buffered.length > 0) {
+      this.logger.log(`📬 Snappjack: Delivering ${buffered.length} buffered notification(s) to agent ${agentSessionId}`);
+    }
+    buffered.forEach(params => this.deliverLogMessage(agentSessionId, params));
+  }
+
+  /**
+   * Answer resources/read by calling the handler of the matching resource or template
+   */
+  private async readResource(params: unknown, context: MethodHandlerContext): Promise<ReadResourceResult> {
+    const uri = (params as { uri?: unknown } | undefined)?.uri;
+    if (typeof uri !== 'string') {
+      throw createMethodError(-32602, 'resources/read requires params.uri');
+    }
+
+    const resolved = this.resourceRegistry.resolve(uri);
+    if (!resolved) {
+      throw createMethodError(-32002, `Resource not found: ${uri}`);
+    }
+
+    const result = await resolved.handler(uri, {
+      requestId: context.requestId!,
+      agentSessionId: context.agentSessionId,
+      variables: resolved.variables
+    });
+
+    if (!result || !Array.isArray(result.contents)) {
+      throw new Error(`Resource handler for '${uri}' returned invalid result format`);
+    }
+    return result;
+  }
+
+  /**
+   * Answer prompts/get by filling in the prompt with the agent's arguments
+   */
+  private async getPrompt(params: unknown, context: MethodHandlerContext): Promise<GetPromptResult> {
+    const { name, arguments: args = {} } = (params || {}) as { name?: unknown; arguments?: { [name: string]: string } };
+    if (typeof name !== 'string') {
+      throw createMethodError(-32602, 'prompts/get requires params.name');
+    }
+
+    const prompt = this.promptRegistry.get(name);
+    if (!prompt) {
+      throw createMethodError(-32602, `Unknown prompt: ${name}`);
+    }
+
+    const missing = this.promptRegistry.getMissingArguments(name, args);
+    if (missing.length > 0) {
+      throw createMethodError(-32602, `Missing required arguments for prompt '${name}': ${missing.join(', ')}`);
+    }
+
+    const result = await prompt.handler(args, {
+      requestId: context.requestId!,
+      agentSessionId: context.agentSessionId
+    });
+
+    if (!result || !Array.isArray(result.messages)) {
+      throw new Error(`Prompt handler for '${name}' returned invalid result format`);
+    }
+    return result;
+  }
+
+  /**
+   * Handle connection info message
+   */
+  private handleConnectionInfo(message: any): void {
+    this.logger.log(`🔗 Snappjack: Received connection info with userApiKey: ${message.userApiKey ? 'present' : 'missing'}`);
+
+    if (message.userApiKey) {
+      // Get the server's current auth requirement value
+      const serverAuthRequirement = message.requireAuthHeader ?? true;
+
+      // Check if we need to update the auth requirement based on user preference vs server value
+      this.sendInitialAuthRequirementIfNeeded(serverAuthRequirement);
+
+      this.logger.log('🔑 Snappjack: Emitting connection-info-updated event');
+
+      // Build MCP endpoint URL using the configured server URL
+      const baseUrl = this.config.serverUrl
+        .replace(/^ws:/, 'http:')
+        .replace(/^wss:/, 'https:');
+      const mcpEndpoint = `${baseUrl}/mcp/${this.config.snappId}/${this.config.userId}`;
+
+      const eventData: ConnectionData = {
+        userApiKey: message.userApiKey,
+        snappId: this.config.snappId,
+        userId: this.config.userId,
+        mcpEndpoint: mcpEndpoint,
+        requireAuthHeader: serverAuthRequirement
+      };
+
+      this.logger.log(`🔑 Snappjack: Event data: ${JSON.stringify(eventData)}`);
+      this.emit('connection-info-updated', eventData);
+      // Keep backward compatibility
+      this.emit('user-api-key-generated', eventData);
+    } else {
+      this.logger.warn('⚠️ Snappjack: Connection info message missing userApiKey');
+    }
+  }
+
+  /**
+   * Handle agent connected message
+   */
+  private handleAgentConnected(message: AgentMessage): void {
+    this.logger.log(`🤖 Snappjack: Agent connected with session ID: ${message.agentSessionId}`);
+
+    if (!this.agentSessions.has(message.agentSessionId)) {
+      this.agentSessions.set(message.agentSessionId, {
+        agentSessionId: message.agentSessionId,
+        ...(message.clientInfo && { clientInfo: message.clientInfo }),
+        connectedAt: Date.now(),
+        toolCallCount: 0
+      });
+    }
+
+    this.connectionManager.updateStatus('bridged');
+    this.logger.log(`📊 Snappjack: Status updated to bridged (${this.agentSessions.size} agent(s) attached)`);
+    this.emit('agent-connected', { agentSessionId: message.agentSessionId });
+    this.emitAgentsChanged();
+    this.flushBufferedNotifications(message.agentSessionId);
+  }
+
+  /**
+   * Handle agent disconnected message
+   */
+  private handleAgentDisconnected(message: AgentMessage): void {
+    this.logger.log(`🤖 Snappjack: Agent disconnected with session ID: ${message.agentSessionId}`);
+    this.cancelToolCalls('Agent disconnected', message.agentSessionId);
+    this.outgoingRequests.rejectAll('Agent disconnected', message.agentSessionId);
+
+    const wasAttached = this.agentSessions.delete(message.agentSessionId);
+    this.rateLimiter.clearSession(message.agentSessionId);
+    this.agentLogLevels.delete(message.agentSessionId);
+
+    if (this.agentSessions.size === 0) {
+      this.logger.log('🤖 Snappjack: Last agent disconnected, updating status');
+      this.connectionManager.updateStatus('connected');
+      this.logger.log('📊 Snappjack: Status updated to connected');
+    } else {
+      this.logger.log(`🤖 Snappjack: ${this.agentSessions.size} agent(s) still attached, keeping current status`);
+    }
+    
+    this.emit('agent-disconnected', { agentSessionId: message.agentSessionId });
+    if (wasAttached) {
+      this.emitAgentsChanged();
+    }
+  }
+
+  /**
+   * Forget all agent sessions, e.g. when the bridge connection is lost
+   */
+  private clearAgentSessions(): void {
+    this.rateLimiter.clear();
+    this.agentLogLevels.clear();
+    if (this.agentSessions.size > 0) {
+      this.agentSessions.clear();
+      this.emitAgentsChanged();
+    }
+  }
+
+  /**
+   * Notify listeners of the current set of attached agents
+   */
+  private emitAgentsChanged(): void {
+    this.emit('agents-changed', this.getAgentSessions());
+  }
+
+  /**
+   * Record a tool call against the calling agent's session
+   */
+  private recordAgentToolCall(agentSessionId: string): void {
+    const session = this.agentSessions.get(agentSessionId);
+    if (session) {
+      session.toolCallCount++;
+      session.lastToolCallAt = Date.now();
+    }
+  }
+
+  /**
+   * Handle tool call message
+   */
+  private async handleToolCall(message: ToolCallMessage): Promise<void> {
+    // Per-request context so concurrent calls are answered to the right agent session
+    const call = this.createToolCall(message);
+    const toolName = message.params.name;
+    this.recordAgentToolCall(call.agentSessionId);
+    const handler = this.toolRegistry.getHandler(toolName);
+
+    if (!handler || !this.toolRegistry.has(toolName)) {
+      // Tool not found - this is a protocol error
+      const errorResponse: ErrorResponse = {
+        code: -32601,
+        message: 'Method not found',
         data: `Tool '${toolName}' not found or no handler registered`
       };
-      this.sendToolError(message.id, errorResponse);
+      this.sendToolError(call, errorResponse);
       return;
     }
 
+    if (!this.toolRegistry.isEnabled(toolName)) {
+      this.logger.warn(`🚫 Snappjack: Tool '${toolName}' is disabled, rejecting call`);
+      this.sendToolResponse(call, {
+        content: [{
+          type: 'text',
+          text: `Tool '${toolName}' is currently unavailable in the app's current state. Try again later or use a different tool.`
+        }],
+        isError: true
+      });
+      return;
+    }
+
+    this.inFlightCalls.set(call.key, call);
+    const progressReporter = new ProgressReporter(
+      notification => this.connectionManager.send(notification),
+      message.params._meta?.progressToken,
+      call.agentSessionId,
+      this.config.progressThrottleMs,
+      this.logger
+    );
+
     try {
-      // Validate tool arguments against schema
-      const validationResult = this.toolRegistry.validate(toolName, message.params.arguments);
+      // Enforce tool permissions before looking at the arguments
+      const session = this.getCallerSession(call.agentSessionId, call.startedAt);
+      const decision = await this.authorizeToolCall(session, toolName, message.params.arguments);
 
-      if (!validationResult.isValid) {
-        // Validation failed - return tool execution error
-        const errorDetails = validationResult.errors?.map(err => {
-          const path = err.instancePath || 'root';
-          return `${path}: ${err.message}`;
-        }).join(', ') || 'Unknown validation error';
-        
-        const errorResult: ToolResponse = {
-          content: [{
-            type: 'text',
-            text: `Invalid arguments for tool '${toolName}': ${errorDetails}`
-          }],
-          isError: true
-        };
-        
-        this.logger.warn(`❌ Snappjack: Tool '${toolName}' validation failed: ${errorDetails}`);
-        this.sendToolResponse(message.id, errorResult);
+      if (call.cancelled) {
         return;
       }
-      
-      // Call handler with validated (and potentially coerced) arguments
-      const result = await handler(message.params.arguments, message);
-      
-      // Ensure result has proper format
+
+      if (!decision.allowed) {
+        this.denyToolCall(call, session, decision.reason || 'Not permitted');
+        return;
+      }
+
+      // Protect expensive tools from agents calling them in a loop
+      const rateLimit = this.getToolRateLimit(toolName);
+      if (rateLimit) {
+        const rateDecision = this.rateLimiter.consume(call.agentSessionId, toolName, rateLimit);
+        if (!rateDecision.allowed) {
+          this.rejectRateLimitedCall(call, rateDecision.retryAfterMs);
+          return;
+        }
+      }
+
+      const middlewareContext: ToolMiddlewareContext = {
+        toolName,
+        tool: this.toolRegistry.getDefinition(toolName)!,
+        arguments: message.params.arguments,
+        message,
+        session,
+        requestId: call.requestId,
+        agentSessionId: call.agentSessionId,
+        signal: call.controller.signal
+      };
+
+      const result = await this.runMiddleware(middlewareContext, () =>
+        this.executeToolCall(call, middlewareContext, handler, progressReporter)
+      );
+
+      if (call.cancelled) {
+        // The agent no longer expects a response
+        this.logger.log(`🛑 Snappjack: Suppressing response for cancelled tool call '${toolName}'`);
+        return;
+      }
+
+      // Middleware can replace the result, so check it once more before sending
       if (!result || typeof result !== 'object' || !Array.isArray(result.content)) {
-        // Invalid result format - return as tool execution error
-        const errorResult: ToolResponse = {
+        this.sendToolResponse(call, {
           content: [{
             type: 'text',
-            text: `Tool handler for '${toolName}' returned invalid result format`
+            text: `Tool middleware for '${toolName}' returned invalid result format`
           }],
           isError: true
-        };
-        this.sendToolResponse(message.id, errorResult);
+        });
         return;
       }
-      
-      this.sendToolResponse(message.id, result);
+
+      this.sendToolResponse(call, result);
     } catch (error) {
+      if (call.cancelled) {
+        this.logger.log(`🛑 Snappjack: Suppressing error for cancelled tool call '${toolName}'`);
+        return;
+      }
+
       // Handler threw an exception - this is a tool execution error
       const errorMessage = error instanceof Error ? error.message : String(error);
       const errorResult: ToolResponse = {
@@ -503,10 +1274,664 @@ export class Snappjack extends EventEmitter {
       };
       
       this.logger.warn(`❌ Snappjack: Tool '${toolName}' execution error: ${errorMessage}`);
-      this.sendToolResponse(message.id, errorResult);
+      this.sendToolResponse(call, errorResult);
+    } finally {
+      progressReporter.dispose();
+      this.untrackToolCall(call);
     }
   }
 
+  /**
+   * Run the registered middleware in order around the core tool call
+   */
+  private runMiddleware(context: ToolMiddlewareContext, core: () => Promise<ToolResponse>): Promise<ToolResponse> {
+    const middleware = this.middleware.slice();
+    let lastIndex = -1;
+
+    const dispatch = (index: number): Promise<ToolResponse> => {
+      if (index <= lastIndex) {
+        return Promise.reject(new Error('next() called multiple times'));
+      }
+      lastIndex = index;
+
+      if (index === middleware.length) {
+        return core();
+      }
+
+      try {
+        return Promise.resolve(middleware[index](context, () => dispatch(index + 1)));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+
+    return dispatch(0);
+  }
+
+  /**
+   * Validate, confirm and run a tool call, producing the result to send back.
+   * Rejects when the call is cancelled so no response is sent.
+   */
+  private async executeToolCall(
+    call: InFlightToolCall,
+    middlewareContext: ToolMiddlewareContext,
+    handler: ToolHandler,
+    progressReporter: ProgressReporter
+  ): Promise<ToolResponse> {
+    const toolName = call.toolName;
+
+    // Validate tool arguments against schema
+    let args = middlewareContext.arguments;
+    const invalidArguments = this.validateToolArguments(call, args);
+    if (invalidArguments) {
+      return invalidArguments;
+    }
+
+    // Ask the user before running destructive or non-idempotent tools
+    const confirmation = await this.confirmToolCall(call, middlewareContext.session, args);
+
+    if (confirmation.status === 'cancelled') {
+      throw new Error(`Tool call '${toolName}' was cancelled`);
+    }
+
+    if (confirmation.status === 'denied') {
+      this.logger.warn(`🙅 Snappjack: Tool '${toolName}' was declined: ${confirmation.reason}`);
+      return {
+        content: [{
+          type: 'text',
+          text: `The user declined to run tool '${toolName}': ${confirmation.reason}. Do not retry unless the user asks you to.`
+        }],
+        isError: true
+      };
+    }
+
+    if (confirmation.status === 'edited') {
+      // The user changed the arguments, so they must pass validation again
+      args = confirmation.arguments;
+      const invalidEdit = this.validateToolArguments(call, args);
+      if (invalidEdit) {
+        return invalidEdit;
+      }
+    }
+
+    const context: ToolHandlerContext = {
+      signal: call.controller.signal,
+      requestId: call.requestId,
+      agentSessionId: call.agentSessionId,
+      reportProgress: (progress, total, progressMessage) => progressReporter.report(progress, total, progressMessage),
+      elicit: (elicitMessage, requestedSchema) => this.elicit(call, elicitMessage, requestedSchema)
+    };
+
+    // Wait for a free execution slot so bursts of calls cannot overwhelm the app
+    const runInSlot = async (): Promise<ToolResponse | StructuredToolResponse> => {
+      const slot = await this.executionQueue.acquire(toolName, this.getToolConcurrencyLimit(toolName), call.controller.signal);
+
+      if (slot.status === 'cancelled') {
+        throw new Error(`Tool call '${toolName}' was cancelled`);
+      }
+
+      if (slot.status === 'rejected') {
+        this.logger.warn(`🚦 Snappjack: Tool '${toolName}' is busy, rejecting call`);
+        return {
+          content: [{
+            type: 'text',
+            text: `Tool '${toolName}' is busy: too many tool calls are waiting to run. Try again shortly.`
+          }],
+          isError: true
+        };
+      }
+
+      // Hold the slot until the handler itself settles, so a handler that ignores its signal
+      // after a timeout or cancel cannot overlap the next queued call
+      const handlerPromise = Promise.resolve().then(() => handler(args, middlewareContext.message, context));
+      handlerPromise.then(slot.release, slot.release);
+      return handlerPromise;
+    };
+
+    // The tool's timeout also covers the wait for a slot, so calls queued behind a hung handler are still answered
+    const timeoutMs = this.getToolTimeout(toolName);
+    const outcome = await this.runWithTimeout(runInSlot(), timeoutMs, call.controller.signal, pause => {
+      call.pauseTimeout = pause;
+    });
+
+    if (outcome.status === 'cancelled') {
+      throw new Error(`Tool call '${toolName}' was cancelled`);
+    }
+
+    if (outcome.status === 'timed-out') {
+      // Let the handler know its work is no longer needed
+      call.controller.abort();
+      return this.handleToolTimeout(call, timeoutMs);
+    }
+
+    const result = outcome.result;
+
+    // Ensure result has proper format
+    if (!result || typeof result !== 'object' || (!Array.isArray(result.content) && !this.isStructuredContent(result.structuredContent))) {
+      // Invalid result format - return as tool execution error
+      return {
+        content: [{
+          type: 'text',
+          text: `Tool handler for '${toolName}' returned invalid result format`
+        }],
+        isError: true
+      };
+    }
+
+    return this.checkToolOutput(call, result);
+  }
+
+  /**
+   * Ask the user a question through the calling agent (MCP elicitation/create).
+   * The tool's own timeout is paused while waiting for the answer.
+   * Timeouts and cancellation of the tool call resolve as a cancel action.
+   */
+  private async elicit(call: InFlightToolCall, message: string, requestedSchema: ElicitationSchema): Promise<ElicitResult> {
+    const timeoutMs = this.config.elicitationTimeoutMs;
+    const request = new AbortController();
+    this.logger.log(`🙋 Snappjack: Tool '${call.toolName}' is asking the user: ${message}`);
+
+    const resumeTimeout = call.pauseTimeout?.();
+    let outcome: HandlerOutcome<ElicitResult>;
+    try {
+      outcome = await this.runWithTimeout(
+        this.outgoingRequests.request<ElicitResult>(
+          call.agentSessionId,
+          'elicitation/create',
+          { message, requestedSchema },
+          { timeoutMs: 0, signal: request.signal }
+        ),
+        timeoutMs,
+        call.controller.signal
+      );
+    } finally {
+      resumeTimeout?.();
+    }
+
+    if (outcome.status !== 'completed') {
+      // Stop waiting for an answer nobody will use
+      request.abort();
+      if (outcome.status === 'timed-out') {
+        this.logger.warn(`⏱️ Snappjack: No answer to elicitation from tool '${call.toolName}' within ${timeoutMs}ms`);
+      }
+      return { action: 'cancel' };
+    }
+
+    const result = outcome.result;
+    if (result?.action !== 'accept' && result?.action !== 'decline' && result?.action !== 'cancel') {
+      throw new Error(`Invalid elicitation result from agent: ${JSON.stringify(result)}`);
+    }
+    return result;
+  }
+
+  /**
+   * Validate tool arguments against the tool's input schema
+   * @returns An error result for the agent, or null if the arguments are valid
+   */
+  private validateToolArguments(call: InFlightToolCall, args: unknown): ToolResponse | null {
+    const validationResult = this.toolRegistry.validate(call.toolName, args);
+
+    if (validationResult.isValid) {
+      return null;
+    }
+
+    // Validation failed - return tool execution error
+    const errorDetails = this.formatValidationErrors(validationResult);
+    
+    this.logger.warn(`❌ Snappjack: Tool '${call.toolName}' validation failed: ${errorDetails}`);
+    return {
+      content: [{
+        type: 'text',
+        text: `Invalid arguments for tool '${call.toolName}': ${errorDetails}`
+      }],
+      isError: true
+    };
+  }
+
+  /**
+   * Turn schema validation errors into a single readable line
+   */
+  private formatValidationErrors(validationResult: ValidationResult): string {
+    return validationResult.errors?.map(err => {
+      const path = err.instancePath || 'root';
+      return `${path}: ${err.message}`;
+    }).join(', ') || 'Unknown validation error';
+  }
+
+  /**
+   * Check a handler result against the tool's outputSchema and fill in a text
+   * fallback for handlers that only return structuredContent
+   */
+  private checkToolOutput(call: InFlightToolCall, result: ToolResponse | StructuredToolResponse): ToolResponse {
+    const checked: ToolResponse = Array.isArray(result.content)
+      ? result as ToolResponse
+      : {
+          ...result,
+          content: [{ type: 'text', text: JSON.stringify(result.structuredContent) }]
+        };
+
+    const mode = this.config.outputValidation;
+    const outputSchema = this.toolRegistry.get(call.toolName)?.outputSchema;
+    if (mode === 'off' || !outputSchema || checked.isError) {
+      return checked;
+    }
+
+    let problem: string | null = null;
+    if (!this.isStructuredContent(checked.structuredContent)) {
+      problem = 'it declares an outputSchema but returned no structuredContent';
+    } else {
+      const validationResult = this.toolRegistry.validateOutput(call.toolName, checked.structuredContent);
+      if (!validationResult.isValid) {
+        problem = `structuredContent does not match its outputSchema: ${this.formatValidationErrors(validationResult)}`;
+      }
+    }
+
+    if (!problem) {
+      return checked;
+    }
+
+    if (mode === 'warn') {
+      this.logger.warn(`⚠️ Snappjack: Tool '${call.toolName}' output problem: ${problem}`);
+      return checked;
+    }
+
+    this.logger.warn(`❌ Snappjack: Rejecting output of tool '${call.toolName}': ${problem}`);
+    return {
+      content: [{
+        type: 'text',
+        text: `Tool '${call.toolName}' returned invalid output: ${problem}`
+      }],
+      isError: true
+    };
+  }
+
+  /**
+   * structuredContent must be a JSON object
+   */
+  private isStructuredContent(value: unknown): value is { [key: string]: unknown } {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Whether a tool needs user confirmation: the per-tool override, else its annotations.
+   * As in MCP, the destructive and idempotent hints only apply to tools that are not read-only.
+   */
+  private requiresConfirmation(tool: Tool | undefined): boolean {
+    if (!tool) {
+      return false;
+    }
+    if (typeof tool.requiresConfirmation === 'boolean') {
+      return tool.requiresConfirmation;
+    }
+    if (tool.annotations?.readOnlyHint === true) {
+      return false;
+    }
+    return tool.annotations?.destructiveHint === true || tool.annotations?.idempotentHint === false;
+  }
+
+  /**
+   * Ask the app's confirmToolCall callback whether a tool call may run
+   */
+  private async confirmToolCall(call: InFlightToolCall, session: AgentSession, args: unknown): Promise<ConfirmationOutcome> {
+    const tool = this.toolRegistry.get(call.toolName);
+
+    if (!this.config.confirmToolCall || !this.requiresConfirmation(tool)) {
+      return { status: 'approved' };
+    }
+
+    const timeoutMs = this.config.confirmationTimeoutMs;
+    this.logger.log(`🙋 Snappjack: Requesting user confirmation for tool '${call.toolName}'`);
+
+    try {
+      const outcome = await this.runWithTimeout(
+        Promise.resolve(this.config.confirmToolCall({
+          toolName: call.toolName,
+          tool: this.toolRegistry.getDefinition(call.toolName)!,
+          arguments: args,
+          session,
+          requestId: call.requestId
+        })),
+        timeoutMs,
+        call.controller.signal
+      );
+
+      if (outcome.status === 'cancelled') {
+        return { status: 'cancelled' };
+      }
+      if (outcome.status === 'timed-out') {
+        return { status: 'denied', reason: `no confirmation was given within ${timeoutMs}ms` };
+      }
+
+      const decision = outcome.result;
+      switch (decision?.action) {
+        case 'approve':
+          return { status: 'approved' };
+        case 'edit':
+          return { status: 'edited', arguments: decision.arguments };
+        case 'deny':
+          return { status: 'denied', reason: decision.reason || 'the request was denied' };
+        default:
+          return { status: 'denied', reason: 'the confirmation returned an unknown decision' };
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Snappjack: confirmToolCall failed for '${call.toolName}': ${errorMessage}`);
+      return { status: 'denied', reason: `confirmation failed: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Session of the agent making a call. Calls from sessions the bridge never
+   * announced still get a minimal session so policies can be evaluated.
+   */
+  private getCallerSession(agentSessionId: string, requestedAt: number): AgentSession {
+    return this.agentSessions.get(agentSessionId) || {
+      agentSessionId,
+      connectedAt: requestedAt,
+      toolCallCount: 0
+    };
+  }
+
+  /**
+   * The agent session that attached most recently
+   */
+  private getLatestAgentSession(): AgentSession | undefined {
+    return Array.from(this.agentSessions.values())
+      .reduce<AgentSession | undefined>((latest, session) => (!latest || session.connectedAt >= latest.connectedAt ? session : latest), undefined);
+  }
+
+  /**
+   * Decide whether a session may call a tool: declarative permissions first, then the custom hook
+   */
+  private async authorizeToolCall(session: AgentSession, toolName: string, args: unknown): Promise<ToolAccessDecision> {
+    const decision = this.toolAccessPolicy.check(session, toolName);
+    if (!decision.allowed || !this.config.authorizeToolCall) {
+      return decision;
+    }
+
+    try {
+      const allowed = await this.config.authorizeToolCall(session, toolName, args);
+      return allowed
+        ? { allowed: true }
+        : { allowed: false, reason: `Tool '${toolName}' was rejected by the authorization policy` };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`❌ Snappjack: authorizeToolCall failed for '${toolName}': ${errorMessage}`);
+      return { allowed: false, reason: `Authorization check failed: ${errorMessage}` };
+    }
+  }
+
+  /**
+   * Reject an unauthorized tool call and record it for auditing
+   */
+  private denyToolCall(call: InFlightToolCall, session: AgentSession, reason: string): void {
+    this.logger.warn(`🚫 Snappjack: Denied tool '${call.toolName}' for agent ${call.agentSessionId}: ${reason}`);
+
+    this.sendToolError(call, {
+      code: -32001,
+      message: 'Tool call not permitted',
+      data: reason
+    });
+
+    const event: ToolCallDeniedEvent = {
+      toolName: call.toolName,
+      requestId: call.requestId,
+      agentSessionId: call.agentSessionId,
+      ...(session.clientInfo && { clientName: session.clientInfo.name }),
+      reason
+    };
+    this.emit('tool-call-denied', event);
+  }
+
+  /**
+   * Create the per-request context for a tool call
+   */
+  private createToolCall(message: ToolCallMessage): InFlightToolCall {
+    return {
+      key: this.getToolCallKey(message.agentSessionId, message.id),
+      requestId: message.id,
+      agentSessionId: message.agentSessionId,
+      toolName: message.params.name,
+      startedAt: Date.now(),
+      controller: new AbortController(),
+      cancelled: false
+    };
+  }
+
+  /**
+   * Remove a finished tool call from the in-flight table
+   */
+  private untrackToolCall(call: InFlightToolCall): void {
+    if (this.inFlightCalls.get(call.key) === call) {
+      this.inFlightCalls.delete(call.key);
+    }
+  }
+
+  /**
+   * JSON-RPC ids are only unique per agent session, so key in-flight calls by both
+   */
+  private getToolCallKey(agentSessionId: string, requestId: string | number): string {
+    return `${agentSessionId}:${requestId}`;
+  }
+
+  /**
+   * Abort an in-flight tool call and suppress its response
+   */
+  private cancelToolCall(call: InFlightToolCall, reason: string): void {
+    if (call.cancelled) {
+      return;
+    }
+
+    this.logger.log(`🛑 Snappjack: Cancelling tool call '${call.toolName}' (${call.requestId}): ${reason}`);
+    call.cancelled = true;
+    this.inFlightCalls.delete(call.key);
+    call.controller.abort();
+
+    const event: ToolCancelledEvent = {
+      toolName: call.toolName,
+      requestId: call.requestId,
+      agentSessionId: call.agentSessionId,
+      reason
+    };
+    this.emit('tool-cancelled', event);
+  }
+
+  /**
+   * Cancel all in-flight tool calls, optionally limited to one agent session
+   */
+  private cancelToolCalls(reason: string, agentSessionId?: string): void {
+    Array.from(this.inFlightCalls.values())
+      .filter(call => agentSessionId === undefined || call.agentSessionId === agentSessionId)
+      .forEach(call => this.cancelToolCall(call, reason));
+  }
+
+  /**
+   * Handle an MCP notifications/cancelled message from an agent
+   */
+  private handleCancelledNotification(message: CancelledNotificationMessage): void {
+    const call = this.inFlightCalls.get(this.getToolCallKey(message.agentSessionId, message.params.requestId));
+
+    if (!call) {
+      this.logger.log(`🛑 Snappjack: Ignoring cancellation for unknown request ${message.params.requestId}`);
+      return;
+    }
+
+    this.cancelToolCall(call, message.params.reason || 'Cancelled by agent');
+  }
+
+  /**
+   * Resolve the timeout for a tool: its own timeoutMs, else the configured default
+   */
+  private getToolTimeout(toolName: string): number {
+    const toolTimeout = this.toolRegistry.get(toolName)?.timeoutMs;
+    return typeof toolTimeout === 'number' ? toolTimeout : this.config.defaultToolTimeoutMs;
+  }
+
+  /**
+   * Resolve the rate limit for a tool: its own rateLimit (false disables it), else the configured default
+   */
+  private getToolRateLimit(toolName: string): ToolRateLimit | undefined {
+    const toolRateLimit = this.toolRegistry.get(toolName)?.rateLimit;
+    if (toolRateLimit === false) {
+      return undefined;
+    }
+    return toolRateLimit || this.config.rateLimit;
+  }
+
+  /**
+   * Answer a call that exceeded its rate limit, telling the agent when to retry
+   */
+  private rejectRateLimitedCall(call: InFlightToolCall, retryAfterMs: number): void {
+    const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+    this.logger.warn(`🚦 Snappjack: Tool '${call.toolName}' rate limited for agent ${call.agentSessionId}, retry after ${retryAfterMs}ms`);
+
+    this.sendToolResponse(call, {
+      content: [{
+        type: 'text',
+        text: `Rate limit exceeded for tool '${call.toolName}'. Retry after ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}.`
+      }],
+      isError: true,
+      _meta: { retryAfterMs }
+    });
+
+    const event: RateLimitedEvent = {
+      toolName: call.toolName,
+      requestId: call.requestId,
+      agentSessionId: call.agentSessionId,
+      retryAfterMs
+    };
+    this.emit('rate-limited', event);
+  }
+
+  /**
+   * Resolve how many calls to a tool may run at once: 1 for non-reentrant tools, else its maxConcurrency
+   */
+  private getToolConcurrencyLimit(toolName: string): number {
+    const tool = this.toolRegistry.get(toolName);
+    if (tool?.reentrant === false) {
+      return 1;
+    }
+    return typeof tool?.maxConcurrency === 'number' ? tool.maxConcurrency : Infinity;
+  }
+
+  /**
+   * Race a promise (handler or confirmation) against a timeout and cancellation signal.
+   * A timeout of 0 (or less) waits indefinitely. `onPausable` receives a function that stops
+   * the timer until the function it returns is called; nested pauses resume on the last one.
+   */
+  private runWithTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    signal: AbortSignal,
+    onPausable?: (pause: () => () => void) => void
+  ): Promise<HandlerOutcome<T>> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      let remainingMs = timeoutMs;
+      let deadline = 0;
+      let pauses = 0;
+      let settled = false;
+
+      const cleanup = () => {
+        settled = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal.removeEventListener('abort', onAbort);
+      };
+
+      const startTimer = () => {
+        deadline = Date.now() + remainingMs;
+        timer = setTimeout(() => {
+          cleanup();
+          resolve({ status: 'timed-out' });
+        }, remainingMs);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        resolve({ status: 'cancelled' });
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+
+      if (timeoutMs > 0) {
+        startTimer();
+        onPausable?.(() => {
+          if (pauses++ === 0 && timer) {
+            clearTimeout(timer);
+            timer = null;
+            remainingMs = Math.max(0, deadline - Date.now());
+          }
+
+          let resumed = false;
+          return () => {
+            if (resumed) {
+              return;
+            }
+            resumed = true;
+            if (--pauses === 0 && !settled) {
+              startTimer();
+            }
+          };
+        });
+      }
+
+      promise.then(
+        result => {
+          cleanup();
+          resolve({ status: 'completed', result });
+        },
+        error => {
+          cleanup();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Build the result for a tool call whose handler did not finish in time
+   */
+  private handleToolTimeout(call: InFlightToolCall, timeoutMs: number): ToolResponse {
+    this.logger.warn(`⏱️ Snappjack: Tool '${call.toolName}' timed out after ${timeoutMs}ms`);
+
+    const event: ToolTimeoutEvent = {
+      toolName: call.toolName,
+      requestId: call.requestId,
+      agentSessionId: call.agentSessionId,
+      timeoutMs
+    };
+    this.emit('tool-timeout', event);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Tool '${call.toolName}' timed out after ${timeoutMs}ms`
+      }],
+      isError: true
+    };
+  }
+
+  /**
+   * Check if an incoming message is an MCP cancellation notification
+   */
+  private isCancelledNotification(message: unknown): message is CancelledNotificationMessage {
+    return !!(
+      message &&
+      typeof message === 'object' &&
+      (message as CancelledNotificationMessage).jsonrpc === '2.0' &&
+      (message as CancelledNotificationMessage).method === 'notifications/cancelled' &&
+      (message as CancelledNotificationMessage).params &&
+      (message as CancelledNotificationMessage).params.requestId !== undefined &&
+      (message as CancelledNotificationMessage).agentSessionId
+    );
+  }
+
   /**
    * Check if message is a tool call request
    */
@@ -526,19 +1951,84 @@ export class Snappjack extends EventEmitter {
     );
   }
 
+  /**
+   * Check if message is a JSON-RPC request or notification from an agent
+   */
+  private isJsonRpcRequest(message: unknown): message is JsonRpcRequestMessage {
+    return !!(
+      message &&
+      typeof message === 'object' &&
+      (message as JsonRpcRequestMessage).jsonrpc === '2.0' &&
+      typeof (message as JsonRpcRequestMessage).method === 'string' &&
+      (message as JsonRpcRequestMessage).agentSessionId
+    );
+  }
+
+  /**
+   * Check if message is a JSON-RPC response to a request the app sent
+   */
+  private isJsonRpcResponse(message: unknown): message is JsonRpcResponse {
+    return !!(
+      message &&
+      typeof message === 'object' &&
+      (message as JsonRpcResponse).jsonrpc === '2.0' &&
+      'id' in message &&
+      !('method' in message) &&
+      ('result' in message || 'error' in message)
+    );
+  }
+
+  /**
+   * Send the result of a method request
+   */
+  private sendMethodResult(message: JsonRpcRequestMessage, result: { [key: string]: unknown }): void {
+    try {
+      this.connectionManager.send({
+        jsonrpc: '2.0',
+        id: message.id!,
+        result,
+        agentSessionId: message.agentSessionId
+      });
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Send a JSON-RPC error for a method request
+   */
+  private sendMethodError(message: JsonRpcRequestMessage, error: ErrorResponse): void {
+    if (message.id === undefined) {
+      return; // Notifications never get a response
+    }
+
+    try {
+      this.connectionManager.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error,
+        agentSessionId: message.agentSessionId
+      });
+    } catch (sendError) {
+      this.logger.error(`❌ Failed to send error response: ${sendError instanceof Error ? sendError.message : String(sendError)}`);
+      this.emit('error', sendError);
+    }
+  }
+
   /**
    * Send tool response
    */
-  private sendToolResponse(requestId: string | number, result: ToolResponse): void {
+  private sendToolResponse(call: InFlightToolCall, result: ToolResponse): void {
     try {
       const response: JsonRpcResponse = {
         jsonrpc: '2.0',
-        id: requestId,
+        id: call.requestId,
         result,
-        agentSessionId: this.lastToolCallAgentSessionId
+        agentSessionId: call.agentSessionId
       };
 
       this.connectionManager.send(response);
+      this.logger.log(`✅ Snappjack: Tool '${call.toolName}' answered in ${Date.now() - call.startedAt}ms`);
     } catch (error) {
       this.emit('error', error);
     }
@@ -547,13 +2037,13 @@ export class Snappjack extends EventEmitter {
   /**
    * Send tool error
    */
-  private sendToolError(requestId: string | number, error: ErrorResponse): void {
+  private sendToolError(call: InFlightToolCall, error: ErrorResponse): void {
     try {
       const errorResponse: JsonRpcResponse = {
         jsonrpc: '2.0',
-        id: requestId,
+        id: call.requestId,
         error,
-        agentSessionId: this.lastToolCallAgentSessionId
+        agentSessionId: call.agentSessionId
       };
 
       this.logger.log(`🚨 Snappjack: Sending protocol error response: ${JSON.stringify(errorResponse, null, 2)}`);
@@ -566,20 +2056,74 @@ export class Snappjack extends EventEmitter {
   }
 
   /**
-   * Force disconnect the currently connected agent
+   * Force disconnect an agent session, or every attached agent when no session ID is given
    * This allows the snapp to terminate an agent session when needed
+   * @param agentSessionId - The agent session to disconnect
+   * @returns Promise that resolves when the matching agent-disconnected event arrives. Rejects right away
+   * for unknown sessions, and when the connection closes first.
    */
-  public forceDisconnectAgent(): void {
-    try {
-      this.connectionManager.send({
-        type: 'force-disconnect-agent'
-      });
-      this.logger.log('🔌 Snappjack: Sent force disconnect agent message');
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.logger.error(`❌ Snappjack: Failed to force disconnect agent: ${errorMessage}`);
-      throw new Error(`Failed to force disconnect agent: ${errorMessage}`);
-    }
+  public async forceDisconnectAgent(agentSessionId?: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      try {
+        const target = agentSessionId ? `agent ${agentSessionId}` : 'all agents';
+
+        if (agentSessionId && !this.agentSessions.has(agentSessionId)) {
+          reject(new Error(`Unknown agent session: ${agentSessionId}`));
+          return;
+        }
+
+        this.connectionManager.send({
+          type: 'force-disconnect-agent',
+          ...(agentSessionId && { agentSessionId })
+        });
+        this.logger.log(`🔌 Snappjack: Sent force disconnect message for ${target}`);
+        this.cancelToolCalls('Agent force disconnected', agentSessionId);
+
+        // Nothing to wait for if no specific session was requested and no agent is attached
+        if (!agentSessionId && this.agentSessions.size === 0) {
+          resolve();
+          return;
+        }
+
+        // Set up one-time listener for the agent-disconnected event
+        const timeout = setTimeout(() => {
+          stopListening();
+          reject(new Error(`Timeout waiting for ${target} to disconnect`));
+        }, 10000); // 10 second timeout
+
+        const stopListening = () => {
+          clearTimeout(timeout);
+          this.off('agent-disconnected', onAgentDisconnected);
+          this.connectionManager.off('close', onConnectionClosed);
+        };
+
+        const onAgentDisconnected = (data: { agentSessionId: string }) => {
+          const isComplete = agentSessionId
+            ? data.agentSessionId === agentSessionId
+            : this.agentSessions.size === 0;
+
+          if (isComplete) {
+            stopListening();
+            this.logger.log(`🔌 Snappjack: Force disconnect of ${target} confirmed`);
+            resolve();
+          }
+        };
+
+        // Agent sessions are dropped without agent-disconnected events when the connection closes
+        const onConnectionClosed = () => {
+          stopListening();
+          reject(new Error(`Connection closed before ${target} disconnected`));
+        };
+
+        // Listen for the confirmation event
+        this.on('agent-disconnected', onAgentDisconnected);
+        this.connectionManager.on('close', onConnectionClosed);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.logger.error(`❌ Snappjack: Failed to force disconnect agent: ${errorMessage}`);
+        reject(new Error(`Failed to force disconnect agent: ${errorMessage}`));
+      }
+    });
   }
 
   /**
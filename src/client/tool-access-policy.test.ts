@@ -0,0 +1,98 @@
+/**
+ * Unit tests for ToolAccessPolicy
+ */
+
+import { ToolAccessPolicy } from './tool-access-policy';
+import { AgentSession } from '../core/types';
+
+describe('ToolAccessPolicy', () => {
+  const session: AgentSession = {
+    agentSessionId: 'session-1',
+    clientInfo: { name: 'claude-desktop', version: '1.0.0' },
+    connectedAt: 0,
+    toolCallCount: 0
+  };
+
+  it('should allow everything without rules', () => {
+    const policy = new ToolAccessPolicy({});
+
+    expect(policy.check(session, 'delete_document')).toEqual({ allowed: true });
+  });
+
+  describe('deny lists', () => {
+    it('should deny tools on the default deny list', () => {
+      const policy = new ToolAccessPolicy({ default: { deny: ['delete_document'] } });
+
+      expect(policy.check(session, 'delete_document')).toEqual({
+        allowed: false,
+        reason: "Tool 'delete_document' is denied for all agents"
+      });
+      expect(policy.check(session, 'read_document').allowed).toBe(true);
+    });
+
+    it('should deny by agent client name', () => {
+      const policy = new ToolAccessPolicy({ clients: { 'claude-desktop': { deny: ['*'] } } });
+
+      expect(policy.check(session, 'read_document')).toEqual({
+        allowed: false,
+        reason: "Tool 'read_document' is denied for agent client 'claude-desktop'"
+      });
+    });
+
+    it('should deny sessions without client info when client rules exist', () => {
+      const anonymous: AgentSession = { agentSessionId: 'session-2', connectedAt: 0, toolCallCount: 0 };
+      const policy = new ToolAccessPolicy({ clients: { 'cursor': { deny: ['delete_document'] } } });
+
+      expect(policy.check(anonymous, 'read_document')).toEqual({
+        allowed: false,
+        reason: "Tool 'read_document' is denied for agents that have not identified their client"
+      });
+      expect(new ToolAccessPolicy({ default: { deny: ['delete_document'] } }).check(anonymous, 'read_document').allowed).toBe(true);
+    });
+
+    it('should let a deny entry win over a more specific allow list', () => {
+      const policy = new ToolAccessPolicy({
+        default: { deny: ['delete_document'] },
+        sessions: { 'session-1': { allow: ['delete_document'] } }
+      });
+
+      expect(policy.check(session, 'delete_document').allowed).toBe(false);
+    });
+  });
+
+  describe('allow lists', () => {
+    it('should reject tools missing from the allow list', () => {
+      const policy = new ToolAccessPolicy({ default: { allow: ['read_document'] } });
+
+      expect(policy.check(session, 'read_document').allowed).toBe(true);
+      expect(policy.check(session, 'save_document')).toEqual({
+        allowed: false,
+        reason: "Tool 'save_document' is not in the allowlist for all agents"
+      });
+    });
+
+    it('should let the most specific allow list decide', () => {
+      const policy = new ToolAccessPolicy({
+        default: { allow: ['read_document'] },
+        clients: { 'claude-desktop': { allow: ['read_document', 'save_document'] } },
+        sessions: { 'other-session': { allow: [] } }
+      });
+
+      expect(policy.check(session, 'save_document').allowed).toBe(true);
+      expect(policy.check({ ...session, clientInfo: undefined }, 'save_document').allowed).toBe(false);
+      expect(policy.check({ ...session, agentSessionId: 'other-session' }, 'read_document')).toEqual({
+        allowed: false,
+        reason: "Tool 'read_document' is not in the allowlist for agent session 'other-session'"
+      });
+    });
+
+    it('should support wildcard allow lists', () => {
+      const policy = new ToolAccessPolicy({
+        default: { allow: [] },
+        sessions: { 'session-1': { allow: ['*'] } }
+      });
+
+      expect(policy.check(session, 'anything').allowed).toBe(true);
+    });
+  });
+});
\ No newline at end of file
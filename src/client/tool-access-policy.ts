@@ -0,0 +1,80 @@
+/**
+ * Snappjack SDK - Tool Access Policy
+ *
+ * Evaluates declarative allow/deny lists to decide whether an agent
+ * session may call a tool.
+ */
+
+import {
+  AgentSession,
+  ToolAccessRule,
+  ToolPermissions,
+  ToolAccessDecision
+} from '../core/types';
+
+export class ToolAccessPolicy {
+  private permissions: ToolPermissions;
+
+  constructor(permissions: ToolPermissions) {
+    this.permissions = permissions;
+  }
+
+  /**
+   * Check whether a session may call a tool.
+   *
+   * Rules apply from least to most specific: default, agent client name, agent session.
+   * A deny entry in any applicable rule wins. Otherwise the most specific rule that
+   * has an allow list decides, and tools missing from it are rejected.
+   * When client rules exist, sessions that have not announced their client are denied,
+   * since any of those rules might apply to them.
+   */
+  check(session: AgentSession, toolName: string): ToolAccessDecision {
+    const hasClientRules = Object.keys(this.permissions.clients ?? {}).length > 0;
+    if (hasClientRules && !session.clientInfo?.name) {
+      return { allowed: false, reason: `Tool '${toolName}' is denied for agents that have not identified their client` };
+    }
+
+    const rules = this.getApplicableRules(session);
+
+    for (const { label, rule } of rules) {
+      if (this.matches(rule.deny, toolName)) {
+        return { allowed: false, reason: `Tool '${toolName}' is denied for ${label}` };
+      }
+    }
+
+    const allowRule = rules.slice().reverse().find(({ rule }) => rule.allow !== undefined);
+    if (allowRule && !this.matches(allowRule.rule.allow, toolName)) {
+      return { allowed: false, reason: `Tool '${toolName}' is not in the allowlist for ${allowRule.label}` };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Collect the rules that apply to a session, least specific first
+   */
+  private getApplicableRules(session: AgentSession): Array<{ label: string; rule: ToolAccessRule }> {
+    const rules: Array<{ label: string; rule: ToolAccessRule }> = [];
+
+    if (this.permissions.default) {
+      rules.push({ label: 'all agents', rule: this.permissions.default });
+    }
+
+    const clientName = session.clientInfo?.name;
+    const clientRule = clientName ? this.permissions.clients?.[clientName] : undefined;
+    if (clientRule) {
+      rules.push({ label: `agent client '${clientName}'`, rule: clientRule });
+    }
+
+    const sessionRule = this.permissions.sessions?.[session.agentSessionId];
+    if (sessionRule) {
+      rules.push({ label: `agent session '${session.agentSessionId}'`, rule: sessionRule });
+    }
+
+    return rules;
+  }
+
+  private matches(toolNames: string[] | undefined, toolName: string): boolean {
+    return !!toolNames && (toolNames.includes('*') || toolNames.includes(toolName));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for ToolExecutionQueue
+ */
+
+import { ToolExecutionQueue, ExecutionSlot } from './tool-execution-queue';
+
+describe('ToolExecutionQueue', () => {
+  const flushPromiseQueue = () => new Promise(jest.requireActual('timers').setImmediate);
+
+  const acquireInto = (queue: ToolExecutionQueue, toolName: string, limit: number, slots: ExecutionSlot[], signal = new AbortController().signal) =>
+    queue.acquire(toolName, limit, signal).then(slot => {
+      slots.push(slot);
+      return slot;
+    });
+
+  const release = (slot: ExecutionSlot) => {
+    if (slot.status === 'acquired') {
+      slot.release();
+    }
+  };
+
+  it('should grant slots immediately while under the limits', async () => {
+    const queue = new ToolExecutionQueue(2, 10);
+    const signal = new AbortController().signal;
+
+    expect((await queue.acquire('a', Infinity, signal)).status).toBe('acquired');
+    expect((await queue.acquire('b', Infinity, signal)).status).toBe('acquired');
+    expect(queue.getMetrics()).toEqual({
+      running: 2,
+      queued: 0,
+      rejected: 0,
+      tools: { a: { running: 1, queued: 0 }, b: { running: 1, queued: 0 } }
+    });
+  });
+
+  it('should queue calls beyond the global limit and start them in arrival order', async () => {
+    const queue = new ToolExecutionQueue(1, 10);
+    const slots: ExecutionSlot[] = [];
+
+    const first = await acquireInto(queue, 'a', Infinity, slots);
+    acquireInto(queue, 'b', Infinity, slots);
+    acquireInto(queue, 'c', Infinity, slots);
+    await flushPromiseQueue();
+
+    expect(slots).toHaveLength(1);
+    expect(queue.getMetrics().queued).toBe(2);
+
+    release(first);
+    await flushPromiseQueue();
+
+    expect(slots).toHaveLength(2);
+    expect(queue.getMetrics().tools).toEqual({ b: { running: 1, queued: 0 }, c: { running: 0, queued: 1 } });
+  });
+
+  it('should enforce per-tool limits without blocking other tools', async () => {
+    const queue = new ToolExecutionQueue(Infinity, 10);
+    const slots: ExecutionSlot[] = [];
+
+    await acquireInto(queue, 'save', 1, slots);
+    acquireInto(queue, 'save', 1, slots);
+    await acquireInto(queue, 'read', Infinity, slots);
+    await flushPromiseQueue();
+
+    expect(slots).toHaveLength(2);
+    expect(queue.getMetrics().tools.save).toEqual({ running: 1, queued: 1 });
+
+    release(slots[0]);
+    await flushPromiseQueue();
+
+    expect(slots).toHaveLength(3);
+    expect(queue.getMetrics().tools.save).toEqual({ running: 1, queued: 0 });
+  });
+
+  it('should reject calls once the queue is full', async () => {
+    const queue = new ToolExecutionQueue(1, 1);
+    const signal = new AbortController().signal;
+
+    await queue.acquire('a', Infinity, signal);
+    queue.acquire('a', Infinity, signal);
+
+    expect(await queue.acquire('a', Infinity, signal)).toEqual({ status: 'rejected' });
+    expect(queue.getMetrics().rejected).toBe(1);
+  });
+
+  it('should drop queued calls when their signal aborts', async () => {
+    const queue = new ToolExecutionQueue(1, 10);
+    const controller = new AbortController();
+    const slots: ExecutionSlot[] = [];
+
+    const first = await acquireInto(queue, 'a', Infinity, slots);
+    acquireInto(queue, 'b', Infinity, slots, controller.signal);
+    acquireInto(queue, 'c', Infinity, slots);
+
+    controller.abort();
+    await flushPromiseQueue();
+
+    expect(slots[1]).toEqual({ status: 'cancelled' });
+    expect(queue.getMetrics().queued).toBe(1);
+
+    release(first);
+    await flushPromiseQueue();
+
+    expect(slots[2].status).toBe('acquired');
+    expect(queue.getMetrics().tools).toEqual({ c: { running: 1, queued: 0 } });
+  });
+
+  it('should answer already aborted calls as cancelled', async () => {
+    const queue = new ToolExecutionQueue(1, 10);
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await queue.acquire('a', Infinity, controller.signal)).toEqual({ status: 'cancelled' });
+    expect(queue.getMetrics().running).toBe(0);
+  });
+
+  it('should ignore repeated releases of the same slot', async () => {
+    const queue = new ToolExecutionQueue(2, 10);
+    const signal = new AbortController().signal;
+
+    const slot = await queue.acquire('a', Infinity, signal);
+    await queue.acquire('a', Infinity, signal);
+    release(slot);
+    release(slot);
+
+    expect(queue.getMetrics().running).toBe(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,150 @@
+/**
+ * Snappjack SDK - Tool Execution Queue
+ *
+ * Limits how many tool handlers run at once, globally and per tool, and
+ * queues the remaining calls in arrival order.
+ */
+
+import { ToolQueueMetrics } from '../core/types';
+
+export type ExecutionSlot =
+  | { status: 'acquired'; release: () => void }
+  | { status: 'rejected' }
+  | { status: 'cancelled' };
+
+interface QueuedCall {
+  toolName: string;
+  limit: number;
+  grant: () => void;
+}
+
+export class ToolExecutionQueue {
+  private maxConcurrency: number;
+  private maxQueueLength: number;
+  private running = 0;
+  private runningByTool: Map<string, number> = new Map();
+  private queue: QueuedCall[] = [];
+  private rejected = 0;
+
+  constructor(maxConcurrency: number, maxQueueLength: number) {
+    this.maxConcurrency = maxConcurrency;
+    this.maxQueueLength = maxQueueLength;
+  }
+
+  /**
+   * Wait for a slot to run a tool handler. Resolves immediately when both the
+   * global and the tool's own limit have room, otherwise queues the call.
+   * @param limit - Maximum concurrent runs of this tool
+   * @param signal - Aborting it removes a queued call from the queue
+   */
+  acquire(toolName: string, limit: number, signal: AbortSignal): Promise<ExecutionSlot> {
+    if (signal.aborted) {
+      return Promise.resolve({ status: 'cancelled' });
+    }
+
+    // Queued calls only wait while their own tool is at its limit, so a call
+    // that fits now is not jumping ahead of anyone who could run instead
+    if (this.hasCapacity(toolName, limit)) {
+      return Promise.resolve(this.start(toolName));
+    }
+
+    if (this.queue.length >= this.maxQueueLength) {
+      this.rejected++;
+      return Promise.resolve({ status: 'rejected' });
+    }
+
+    return new Promise(resolve => {
+      const entry: QueuedCall = {
+        toolName,
+        limit,
+        grant: () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(this.start(toolName));
+        }
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          resolve({ status: 'cancelled' });
+          // A cancelled call at the head may have been holding back others
+          this.drain();
+        }
+      };
+
+      signal.addEventListener('abort', onAbort);
+      this.queue.push(entry);
+    });
+  }
+
+  /**
+   * Current queue state
+   */
+  getMetrics(): ToolQueueMetrics {
+    const tools: ToolQueueMetrics['tools'] = {};
+
+    this.runningByTool.forEach((running, toolName) => {
+      tools[toolName] = { running, queued: 0 };
+    });
+    this.queue.forEach(entry => {
+      tools[entry.toolName] = tools[entry.toolName] || { running: 0, queued: 0 };
+      tools[entry.toolName].queued++;
+    });
+
+    return {
+      running: this.running,
+      queued: this.queue.length,
+      rejected: this.rejected,
+      tools
+    };
+  }
+
+  private hasCapacity(toolName: string, limit: number): boolean {
+    return this.running < this.maxConcurrency && (this.runningByTool.get(toolName) || 0) < limit;
+  }
+
+  private start(toolName: string): ExecutionSlot {
+    this.running++;
+    this.runningByTool.set(toolName, (this.runningByTool.get(toolName) || 0) + 1);
+
+    let released = false;
+    return {
+      status: 'acquired',
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.finish(toolName);
+      }
+    };
+  }
+
+  private finish(toolName: string): void {
+    this.running--;
+    const remaining = (this.runningByTool.get(toolName) || 1) - 1;
+    if (remaining > 0) {
+      this.runningByTool.set(toolName, remaining);
+    } else {
+      this.runningByTool.delete(toolName);
+    }
+    this.drain();
+  }
+
+  /**
+   * Start queued calls in arrival order. Calls whose tool is at its own limit
+   * are skipped so they do not hold up calls to other tools.
+   */
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.running < this.maxConcurrency;) {
+      const entry = this.queue[i];
+      if (this.hasCapacity(entry.toolName, entry.limit)) {
+        this.queue.splice(i, 1);
+        entry.grant();
+      } else {
+        i++;
+      }
+    }
+  }
+}
\ No newline at end of file
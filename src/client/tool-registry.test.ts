@@ -133,6 +133,28 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('get()', () => {
+    it('should return the full tool including handler and timeout', () => {
+      const mockHandler = jest.fn();
+      const testTool: Tool = {
+        name: 'slow_tool',
+        inputSchema: { type: 'object' },
+        timeoutMs: 5000,
+        handler: mockHandler
+      };
+
+      toolRegistry.register(testTool);
+
+      const tool = toolRegistry.get('slow_tool');
+      expect(tool?.timeoutMs).toBe(5000);
+      expect(tool?.handler).toBe(mockHandler);
+    });
+
+    it('should return undefined for unknown tools', () => {
+      expect(toolRegistry.get('missing')).toBeUndefined();
+    });
+  });
+
   describe('getAll()', () => {
     it('should return tool definitions with handler property omitted', () => {
       const mockHandler = jest.fn();
@@ -190,6 +212,73 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('SDK-side tool options', () => {
+    it('should not include requiresConfirmation in definitions sent to the bridge', () => {
+      toolRegistry.register({
+        name: 'delete_item',
+        inputSchema: { type: 'object' },
+        annotations: { destructiveHint: true },
+        requiresConfirmation: true
+      });
+
+      expect(toolRegistry.getAll()[0]).not.toHaveProperty('requiresConfirmation');
+      expect(toolRegistry.getDefinition('delete_item')).toEqual({
+        name: 'delete_item',
+        inputSchema: { type: 'object' },
+        annotations: { destructiveHint: true }
+      });
+      expect(toolRegistry.get('delete_item')?.requiresConfirmation).toBe(true);
+    });
+  });
+
+  describe('enabled state', () => {
+    const baseTool: Tool = { name: 'save_document', inputSchema: { type: 'object' } };
+
+    it('should treat tools as enabled by default', () => {
+      toolRegistry.register(baseTool);
+
+      expect(toolRegistry.isEnabled('save_document')).toBe(true);
+      expect(toolRegistry.getEnabled()).toHaveLength(1);
+    });
+
+    it('should report unknown tools as disabled', () => {
+      expect(toolRegistry.isEnabled('missing')).toBe(false);
+    });
+
+    it('should omit disabled tools from getEnabled() but keep them in getAll()', () => {
+      toolRegistry.register({ ...baseTool, enabled: false });
+      toolRegistry.register({ name: 'open_document', inputSchema: { type: 'object' } });
+
+      expect(toolRegistry.getEnabled().map(tool => tool.name)).toEqual(['open_document']);
+      expect(toolRegistry.getAll()).toHaveLength(2);
+      expect(toolRegistry.getAll()[0]).not.toHaveProperty('enabled');
+    });
+
+    it('should evaluate enabled predicates on every check', () => {
+      let documentOpen = false;
+      toolRegistry.register({ ...baseTool, enabled: () => documentOpen });
+
+      expect(toolRegistry.isEnabled('save_document')).toBe(false);
+      documentOpen = true;
+      expect(toolRegistry.isEnabled('save_document')).toBe(true);
+    });
+
+    it('should treat throwing predicates as disabled', () => {
+      toolRegistry.register({ ...baseTool, enabled: () => { throw new Error('no state'); } });
+
+      expect(toolRegistry.isEnabled('save_document')).toBe(false);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('no state'));
+    });
+
+    it('should override predicates with setEnabled()', () => {
+      toolRegistry.register({ ...baseTool, enabled: () => true });
+
+      expect(toolRegistry.setEnabled('save_document', false)).toBe(true);
+      expect(toolRegistry.isEnabled('save_document')).toBe(false);
+      expect(toolRegistry.setEnabled('missing', true)).toBe(false);
+    });
+  });
+
   describe('validate()', () => {
     beforeEach(() => {
       const testTool: Tool = {
@@ -302,6 +391,50 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('validateOutput()', () => {
+    const outputTool: Tool = {
+      name: 'output_tool',
+      inputSchema: { type: 'object' },
+      outputSchema: {
+        type: 'object',
+        properties: {
+          count: { type: 'number' }
+        },
+        required: ['count']
+      }
+    };
+
+    it('should accept structuredContent matching the output schema', () => {
+      toolRegistry.register(outputTool);
+
+      expect(toolRegistry.validateOutput('output_tool', { count: 3 })).toEqual({ isValid: true });
+    });
+
+    it('should report mismatches without coercing the value', () => {
+      toolRegistry.register(outputTool);
+      const structuredContent = { count: '3' };
+
+      const result = toolRegistry.validateOutput('output_tool', structuredContent);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors![0]).toEqual({ instancePath: '/count', message: 'must be number' });
+      expect(structuredContent.count).toBe('3');
+    });
+
+    it('should treat tools without an output schema as valid', () => {
+      toolRegistry.register({ name: 'plain_tool', inputSchema: { type: 'object' } });
+
+      expect(toolRegistry.validateOutput('plain_tool', { anything: true })).toEqual({ isValid: true });
+    });
+
+    it('should drop the output validator when the tool is re-registered without a schema', () => {
+      toolRegistry.register(outputTool);
+      toolRegistry.register({ name: 'output_tool', inputSchema: { type: 'object' } });
+
+      expect(toolRegistry.validateOutput('output_tool', {})).toEqual({ isValid: true });
+    });
+  });
+
   describe('setHandler()', () => {
     it('should set handler for existing tool', () => {
       const testTool: Tool = {
@@ -361,6 +494,32 @@ describe('ToolRegistry', () => {
       expect(toolRegistry.size()).toBe(2);
     });
 
+    it('should remove tools and their validators with unregister()', () => {
+      toolRegistry.register({
+        name: 'tool1',
+        inputSchema: { type: 'object', properties: { a: { type: 'string' } } }
+      });
+
+      expect(toolRegistry.unregister('tool1')).toBe(true);
+      expect(toolRegistry.has('tool1')).toBe(false);
+      expect(toolRegistry.validate('tool1', { b: 1 })).toEqual({ isValid: true });
+      expect(toolRegistry.unregister('tool1')).toBe(false);
+    });
+
+    it('should use the new schema when a tool is registered again', () => {
+      toolRegistry.register({
+        name: 'tool1',
+        inputSchema: { type: 'object', properties: { a: { type: 'string' } } }
+      });
+      toolRegistry.register({
+        name: 'tool1',
+        inputSchema: { type: 'object', properties: { b: { type: 'string' } } }
+      });
+
+      expect(toolRegistry.validate('tool1', { b: 'x' }).isValid).toBe(true);
+      expect(toolRegistry.validate('tool1', { a: 'x' }).isValid).toBe(false);
+    });
+
     it('should clear all tools with clear()', () => {
       const tool1: Tool = { name: 'tool1', inputSchema: { type: 'object' } };
       const tool2: Tool = { name: 'tool2', inputSchema: { type: 'object' } };
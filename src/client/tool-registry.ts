@@ -16,7 +16,9 @@ import {
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
   private validators: Map<string, ValidateFunction> = new Map();
+  private outputValidators: Map<string, ValidateFunction> = new Map();
   private ajv: Ajv;
+  private outputAjv: Ajv;
   private logger: Logger;
 
   constructor(logger: Logger) {
@@ -27,6 +29,11 @@ export class ToolRegistry {
       allErrors: true,
       strict: false,
     });
+    // Results are checked, never rewritten, so no coercion or defaults here
+    this.outputAjv = new Ajv({
+      allErrors: true,
+      strict: false,
+    });
   }
 
   /**
@@ -39,7 +46,8 @@ export class ToolRegistry {
       handler: tool.handler || undefined
     });
     
-    // Compile and cache validator for the tool's input schema
+    // Compile and cache validator for the tool's input schema, dropping any stale one from a previous registration
+    this.validators.delete(tool.name);
     try {
       // Enforce strict validation by recursively adding additionalProperties: false
       const strictSchema = this.enforceStrictSchema(tool.inputSchema);
@@ -55,6 +63,33 @@ export class ToolRegistry {
     } catch (error) {
       this.logger.warn(`⚠️ ToolRegistry: Failed to compile validator for tool '${tool.name}': ${error instanceof Error ? error.message : String(error)}`);
     }
+
+    // Compile and cache validator for the tool's output schema
+    this.outputValidators.delete(tool.name);
+    if (tool.outputSchema) {
+      try {
+        this.outputValidators.set(tool.name, this.outputAjv.compile(tool.outputSchema));
+        this.logger.log(`✅ ToolRegistry: Compiled output validator for tool '${tool.name}'`);
+      } catch (error) {
+        this.logger.warn(`⚠️ ToolRegistry: Failed to compile output validator for tool '${tool.name}': ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Remove a tool and its validator from the registry
+   */
+  unregister(name: string): boolean {
+    this.validators.delete(name);
+    this.outputValidators.delete(name);
+    return this.tools.delete(name);
+  }
+
+  /**
+   * Get a registered tool by name (including its handler)
+   */
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
   }
 
   /**
@@ -73,18 +108,54 @@ export class ToolRegistry {
     if (!tool) return undefined;
     
     // Return tool without handler
-    const { handler, ...definition } = tool;
-    return definition;
+    return this.toDefinition(tool);
   }
 
   /**
    * Get all tool definitions (without handlers)
    */
   getAll(): ToolDefinition[] {
-    return Array.from(this.tools.values()).map(tool => {
-      const { handler, ...definition } = tool;
-      return definition;
-    });
+    return Array.from(this.tools.values()).map(tool => this.toDefinition(tool));
+  }
+
+  /**
+   * Get definitions of the tools that are currently enabled
+   */
+  getEnabled(): ToolDefinition[] {
+    return Array.from(this.tools.values())
+      .filter(tool => this.isEnabled(tool.name))
+      .map(tool => this.toDefinition(tool));
+  }
+
+  /**
+   * Check if a tool is currently enabled, evaluating its predicate if it has one
+   */
+  isEnabled(name: string): boolean {
+    const tool = this.tools.get(name);
+    if (!tool) return false;
+
+    if (typeof tool.enabled === 'function') {
+      try {
+        return tool.enabled();
+      } catch (error) {
+        this.logger.warn(`⚠️ ToolRegistry: Enabled predicate for tool '${name}' threw, treating as disabled: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+      }
+    }
+
+    return tool.enabled !== false;
+  }
+
+  /**
+   * Enable or disable a tool, replacing any enabled predicate
+   * @returns Whether the tool exists
+   */
+  setEnabled(name: string, enabled: boolean): boolean {
+    const tool = this.tools.get(name);
+    if (!tool) return false;
+
+    tool.enabled = enabled;
+    return true;
   }
 
   /**
@@ -129,6 +200,29 @@ export class ToolRegistry {
     return { isValid: true };
   }
 
+  /**
+   * Validate a tool's structuredContent against its output schema
+   */
+  validateOutput(name: string, structuredContent: unknown): ValidationResult {
+    const validator = this.outputValidators.get(name);
+
+    if (!validator) {
+      return { isValid: true }; // No output schema to enforce
+    }
+
+    if (validator(structuredContent)) {
+      return { isValid: true };
+    }
+
+    return {
+      isValid: false,
+      errors: (validator.errors || []).map(err => ({
+        instancePath: err.instancePath || 'root',
+        message: err.message
+      }))
+    };
+  }
+
   /**
    * Set a tool handler (for backward compatibility)
    */
@@ -153,6 +247,7 @@ export class ToolRegistry {
   clear(): void {
     this.tools.clear();
     this.validators.clear();
+    this.outputValidators.clear();
   }
 
   /**
@@ -162,6 +257,14 @@ export class ToolRegistry {
     return this.tools.size;
   }
 
+  /**
+   * Strip the handler and other SDK-side options from a tool
+   */
+  private toDefinition(tool: Tool): ToolDefinition {
+    const { handler, requiresConfirmation, enabled, maxConcurrency, reentrant, rateLimit, ...definition } = tool;
+    return definition;
+  }
+
   /**
    * Recursively enforce strict schema validation by adding additionalProperties: false
    */
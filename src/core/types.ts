@@ -17,23 +17,73 @@ export interface SnappjackConfig {
   serverUrl?: string;  // Optional server URL for testing/custom environments
   tools?: Tool[];
   autoReconnect?: boolean;
-  reconnectInterval?: number;
-  maxReconnectAttempts?: number;
+  reconnectInterval?: number;  // Base delay between reconnect attempts
+  maxReconnectAttempts?: number;  // Infinity retries forever
+  maxReconnectDelay?: number;  // Upper bound for any single reconnect delay
+  backoff?: BackoffStrategy;  // How reconnect delays grow between attempts
   logger?: Logger;
   requireAuthHeader?: boolean;  // Default auth requirement for MCP connections
+  defaultToolTimeoutMs?: number;  // Handler timeout for tools without their own timeoutMs (0 disables)
+  progressThrottleMs?: number;  // Minimum interval between progress notifications per tool call
+  toolPermissions?: ToolPermissions;  // Declarative allow/deny lists per agent session or client
+  authorizeToolCall?: ToolAuthorizer;  // Custom policy hook, consulted after toolPermissions
+  confirmToolCall?: ToolConfirmationHandler;  // Ask the user before destructive or non-idempotent tools run
+  confirmationTimeoutMs?: number;  // How long to wait for confirmToolCall before treating it as denied
+  outputValidation?: OutputValidationMode;  // How to handle results that do not match a tool's outputSchema
+  maxConcurrency?: number;  // Maximum tool handlers running at once across all tools
+  maxQueueLength?: number;  // Calls waiting for a slot beyond this are answered as busy
+  rateLimit?: ToolRateLimit;  // Default rate limit per agent session for tools without their own
+  elicitationTimeoutMs?: number;  // How long elicit() waits for the user before resolving as cancelled
+  samplingTimeoutMs?: number;  // Default timeout for createMessage() (0 disables)
+  maxBufferedNotifications?: number;  // Agent notifications kept while no agent is attached (0 disables buffering)
+  heartbeatInterval?: number;  // Milliseconds between heartbeat pings to the bridge (unset or 0 disables)
+  maxMissedHeartbeats?: number;  // Unanswered pings before the connection is treated as dead
+  outbox?: OutboxOptions;  // Hold responses and notifications while reconnecting (unset disables)
 }
 
+export type OutputValidationMode = 'off' | 'warn' | 'enforce';
+
+// Returns the delay before reconnect attempt `attempt` (0 for the first retry)
+export type BackoffFunction = (attempt: number, previousDelay: number) => number;
+
+export type BackoffStrategy = 'exponential' | 'full-jitter' | 'decorrelated-jitter' | 'fixed' | BackoffFunction;
+
 export interface Logger {
   log: (message: string) => void;
   warn: (message: string) => void;
   error: (message: string) => void;
 }
 
+// Config keys that have no default and stay optional after merging
+export type OptionalConfigKeys = 'authorizeToolCall' | 'confirmToolCall' | 'rateLimit' | 'heartbeatInterval' | 'outbox';
+
 // Internal config type with all required fields
-export type InternalConfig = Required<SnappjackConfig> & { 
+export type InternalConfig = Required<Omit<SnappjackConfig, OptionalConfigKeys>> & Pick<SnappjackConfig, OptionalConfigKeys> & { 
   serverUrl: string; 
 };
 
+// ============================================================================
+// Tool Permission Types
+// ============================================================================
+
+export interface ToolAccessRule {
+  allow?: string[];  // Only these tools may be called ('*' for all)
+  deny?: string[];   // These tools may never be called ('*' for all)
+}
+
+export interface ToolPermissions {
+  default?: ToolAccessRule;
+  clients?: { [clientName: string]: ToolAccessRule };
+  sessions?: { [agentSessionId: string]: ToolAccessRule };
+}
+
+export interface ToolAccessDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+export type ToolAuthorizer = (session: AgentSession, toolName: string, args: unknown) => boolean | Promise<boolean>;
+
 // ============================================================================
 // Tool Types
 // ============================================================================
@@ -63,12 +113,228 @@ export type Tool = {
   timeoutMs?: number;
 } & {
   handler?: ToolHandler;
+  requiresConfirmation?: boolean;  // Overrides the annotation-based confirmation rule
+  enabled?: boolean | (() => boolean);  // Disabled tools are hidden from agents; defaults to true
+  maxConcurrency?: number;  // Maximum concurrent runs of this tool
+  reentrant?: boolean;  // false runs calls to this tool one at a time; defaults to true
+  rateLimit?: ToolRateLimit | false;  // Per agent session; false opts out of the global default
 };
 
-export type ToolHandler = (args: unknown, message?: ToolCallMessage) => Promise<ToolResponse>;
+export interface ToolRateLimit {
+  calls: number;  // Calls allowed per window
+  windowMs: number;
+  burst?: number;  // Calls allowed back to back before throttling; defaults to calls
+}
+
+export interface ToolHandlerContext {
+  signal: AbortSignal;  // Aborted when the agent cancels the call, disconnects, or the call times out
+  requestId: string | number;
+  agentSessionId: string;
+  reportProgress: (progress: number, total?: number, message?: string) => void;  // No-op unless the agent sent a progress token
+  elicit: (message: string, requestedSchema: ElicitationSchema) => Promise<ElicitResult>;  // Ask the user through the agent
+}
+
+// Flat object schema of primitive fields, as MCP elicitation allows
+export interface ElicitationSchema {
+  type: 'object';
+  properties: { [key: string]: object };
+  required?: string[];
+}
+
+export type ElicitResult =
+  | { action: 'accept'; content: { [key: string]: string | number | boolean | string[] } }
+  | { action: 'decline' }
+  | { action: 'cancel' };
+
+export type ToolHandler = (args: unknown, message: ToolCallMessage, context: ToolHandlerContext) => Promise<ToolResponse | StructuredToolResponse>;
+
+// SDK-side tool options that are never sent to the bridge
+export type ToolClientOption = 'handler' | 'requiresConfirmation' | 'enabled' | 'maxConcurrency' | 'reentrant' | 'rateLimit';
 
 // Type for tool registration without handlers
-export type ToolDefinition = Omit<Tool, 'handler'>;
+export type ToolDefinition = Omit<Tool, ToolClientOption>;
+
+// ============================================================================
+// Resource Types
+// ============================================================================
+
+export interface ResourceAnnotations {
+  audience?: Array<'user' | 'assistant'>;
+  priority?: number;
+  lastModified?: string;
+}
+
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  annotations?: ResourceAnnotations;
+  _meta?: { [key: string]: unknown };
+}
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;  // RFC 6570 template, e.g. "doc://{id}"; {+var} may span slashes
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  annotations?: ResourceAnnotations;
+  _meta?: { [key: string]: unknown };
+}
+
+export type ResourceContents =
+  | { uri: string; mimeType?: string; text: string; _meta?: { [key: string]: unknown } }
+  | { uri: string; mimeType?: string; blob: string; _meta?: { [key: string]: unknown } };  // blob is base64
+
+export interface ReadResourceResult {
+  contents: ResourceContents[];
+  _meta?: { [key: string]: unknown };
+}
+
+export interface ResourceHandlerContext {
+  requestId: string | number;
+  agentSessionId: string;
+  variables: { [name: string]: string };  // Values matched by a resource template; empty for plain resources
+}
+
+export type ResourceHandler = (uri: string, context: ResourceHandlerContext) => Promise<ReadResourceResult>;
+
+export type Resource = ResourceDefinition & { handler: ResourceHandler };
+
+export type ResourceTemplate = ResourceTemplateDefinition & { handler: ResourceHandler };
+
+// ============================================================================
+// Prompt Types
+// ============================================================================
+
+export interface PromptArgument {
+  name: string;
+  title?: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: PromptArgument[];
+  _meta?: { [key: string]: unknown };
+}
+
+export interface PromptMessage {
+  role: 'user' | 'assistant';
+  content: ContentBlock;
+}
+
+export interface GetPromptResult {
+  description?: string;
+  messages: PromptMessage[];
+  _meta?: { [key: string]: unknown };
+}
+
+export interface PromptHandlerContext {
+  requestId: string | number;
+  agentSessionId: string;
+}
+
+export type PromptHandler = (args: { [name: string]: string }, context: PromptHandlerContext) => Promise<GetPromptResult>;
+
+export type Prompt = PromptDefinition & { handler: PromptHandler };
+
+// ============================================================================
+// Sampling Types
+// ============================================================================
+
+export interface SamplingMessage {
+  role: Role;
+  content: TextContent | ImageContent | AudioContent;
+}
+
+export interface ModelPreferences {
+  hints?: Array<{ name?: string }>;  // Model name substrings, in order of preference
+  costPriority?: number;  // 0-1
+  speedPriority?: number;  // 0-1
+  intelligencePriority?: number;  // 0-1
+}
+
+export interface CreateMessageRequest {
+  messages: SamplingMessage[];
+  maxTokens: number;
+  systemPrompt?: string;
+  modelPreferences?: ModelPreferences;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  temperature?: number;
+  stopSequences?: string[];
+  metadata?: { [key: string]: unknown };
+}
+
+export interface CreateMessageOptions {
+  agentSessionId?: string;  // Defaults to the most recently attached agent
+  timeoutMs?: number;  // Overrides samplingTimeoutMs
+  signal?: AbortSignal;  // Aborting rejects the request
+}
+
+export interface CreateMessageResult {
+  role: Role;
+  content: TextContent | ImageContent | AudioContent;
+  model: string;  // Model the agent actually used
+  stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | string;
+  _meta?: { [key: string]: unknown };
+}
+
+// ============================================================================
+// Method Handler Types
+// ============================================================================
+
+export interface MethodHandlerContext {
+  method: string;
+  requestId?: string | number;  // Undefined for notifications, which get no response
+  agentSessionId: string;
+  session: AgentSession;
+}
+
+// Resolves to the JSON-RPC result. Throw an error with a numeric `code` to choose the JSON-RPC error code.
+export type MethodHandler = (params: unknown, context: MethodHandlerContext) => unknown | Promise<unknown>;
+
+// ============================================================================
+// Tool Middleware Types
+// ============================================================================
+
+export interface ToolMiddlewareContext {
+  toolName: string;
+  tool: ToolDefinition;
+  arguments: unknown;  // Replace before calling next() to rewrite the arguments the tool sees
+  message: ToolCallMessage;
+  session: AgentSession;
+  requestId: string | number;
+  agentSessionId: string;
+  signal: AbortSignal;
+}
+
+export type ToolMiddleware = (context: ToolMiddlewareContext, next: () => Promise<ToolResponse>) => Promise<ToolResponse>;
+
+// ============================================================================
+// Tool Confirmation Types
+// ============================================================================
+
+export interface ToolConfirmationRequest {
+  toolName: string;
+  tool: ToolDefinition;
+  arguments: unknown;
+  session: AgentSession;
+  requestId: string | number;
+}
+
+export type ToolConfirmationDecision =
+  | { action: 'approve' }
+  | { action: 'deny'; reason?: string }
+  | { action: 'edit'; arguments: unknown };
+
+export type ToolConfirmationHandler = (request: ToolConfirmationRequest) => Promise<ToolConfirmationDecision>;
 
 // ============================================================================
 // Response Types
@@ -84,6 +350,16 @@ export interface CallToolResult {
 
 export type ToolResponse = CallToolResult;
 
+// Handlers of tools with an outputSchema may return structuredContent alone;
+// the SDK adds a JSON text block as content before sending
+export interface StructuredToolResponse {
+  _meta?: { [key: string]: unknown };
+  content?: ContentBlock[];
+  isError?: boolean;
+  structuredContent: { [key: string]: unknown };
+  [key: string]: unknown;
+}
+
 // ============================================================================
 // Content Block Types
 // ============================================================================
@@ -151,6 +427,19 @@ export interface ConnectionData {
 
 export type SnappjackStatus = 'disconnected' | 'connected' | 'bridged' | 'error';
 
+export interface AgentClientInfo {
+  name: string;
+  version?: string;
+}
+
+export interface AgentSession {
+  agentSessionId: string;
+  clientInfo?: AgentClientInfo;
+  connectedAt: number;  // Epoch milliseconds
+  toolCallCount: number;
+  lastToolCallAt?: number;  // Epoch milliseconds
+}
+
 export interface SnappjackError {
   type: 'auth_failed' | 'server_unreachable' | 'connection_failed' | 'unknown';
   message: string;
@@ -160,6 +449,46 @@ export interface SnappjackError {
 
 export type CredentialValidationResult = 'valid' | 'invalid' | 'unreachable';
 
+// ============================================================================
+// Tool Call Event Types
+// ============================================================================
+
+export interface ToolTimeoutEvent {
+  toolName: string;
+  requestId: string | number;
+  agentSessionId: string;
+  timeoutMs: number;
+}
+
+export interface ToolQueueMetrics {
+  running: number;  // Handlers currently running
+  queued: number;  // Calls waiting for a slot
+  rejected: number;  // Calls answered as busy because the queue was full
+  tools: { [toolName: string]: { running: number; queued: number } };
+}
+
+export interface RateLimitedEvent {
+  toolName: string;
+  requestId: string | number;
+  agentSessionId: string;
+  retryAfterMs: number;
+}
+
+export interface ToolCallDeniedEvent {
+  toolName: string;
+  requestId: string | number;
+  agentSessionId: string;
+  clientName?: string;
+  reason: string;
+}
+
+export interface ToolCancelledEvent {
+  toolName: string;
+  requestId: string | number;
+  agentSessionId: string;
+  reason: string;
+}
+
 // ============================================================================
 // Message Types
 // ============================================================================
@@ -171,6 +500,79 @@ export interface ToolCallMessage {
   params: {
     name: string;
     arguments: unknown;
+    _meta?: {
+      progressToken?: string | number;
+      [key: string]: unknown;
+    };
+  };
+  agentSessionId: string;
+}
+
+// Any JSON-RPC request or notification from an agent; notifications have no id
+export interface JsonRpcRequestMessage {
+  jsonrpc: '2.0';
+  id?: string | number;
+  method: string;
+  params?: { [key: string]: unknown };
+  agentSessionId: string;
+}
+
+// JSON-RPC request the app sends to an agent, e.g. elicitation/create
+export interface OutgoingRequestMessage {
+  jsonrpc: '2.0';
+  id: string;
+  method: string;
+  params?: { [key: string]: unknown };
+  agentSessionId: string;
+}
+
+export interface CancelledNotificationMessage {
+  jsonrpc: '2.0';
+  method: 'notifications/cancelled';
+  params: {
+    requestId: string | number;
+    reason?: string;
+  };
+  agentSessionId: string;
+}
+
+export interface ProgressNotificationMessage {
+  jsonrpc: '2.0';
+  method: 'notifications/progress';
+  params: {
+    progressToken: string | number;
+    progress: number;
+    total?: number;
+    message?: string;
+  };
+  agentSessionId: string;
+}
+
+export interface ListChangedNotificationMessage {
+  jsonrpc: '2.0';
+  method: 'notifications/tools/list_changed' | 'notifications/resources/list_changed' | 'notifications/prompts/list_changed';
+  agentSessionId: string;
+}
+
+export interface ResourceUpdatedNotificationMessage {
+  jsonrpc: '2.0';
+  method: 'notifications/resources/updated';
+  params: {
+    uri: string;
+  };
+  agentSessionId: string;
+}
+
+// MCP log severities, least to most severe
+export type LoggingLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+export interface LoggingMessageNotification {
+  jsonrpc: '2.0';
+  method: 'notifications/message';
+  params: {
+    level: LoggingLevel;
+    logger?: string;
+    data: unknown;
   };
   agentSessionId: string;
 }
@@ -184,7 +586,7 @@ export interface ErrorResponse {
 export interface JsonRpcResponse {
   jsonrpc: string;
   id: string | number;
-  result?: ToolResponse;
+  result?: ToolResponse | { [key: string]: unknown };
   error?: ErrorResponse;
   agentSessionId?: string;
 }
@@ -192,10 +594,14 @@ export interface JsonRpcResponse {
 export interface ToolRegistrationMessage {
   type: 'tools-registration';
   tools: ToolDefinition[];
+  resources?: ResourceDefinition[];  // Only sent once the app has registered resources
+  resourceTemplates?: ResourceTemplateDefinition[];
+  prompts?: PromptDefinition[];  // Only sent once the app has registered prompts
 }
 
 export interface ForceDisconnectAgentMessage {
   type: 'force-disconnect-agent';
+  agentSessionId?: string;  // Omit to disconnect every attached agent
 }
 
 export interface UpdateAuthRequirementMessage {
@@ -203,9 +609,21 @@ export interface UpdateAuthRequirementMessage {
   requireAuthHeader: boolean;
 }
 
+// Application-level heartbeat; the bridge echoes sentAt back in a pong
+export interface HeartbeatPingMessage {
+  type: 'ping';
+  sentAt: number;  // Epoch milliseconds
+}
+
+export interface HeartbeatPongMessage {
+  type: 'pong';
+  sentAt: number;  // Echoed from the ping
+}
+
 export interface AgentMessage {
   type: 'agent-connected' | 'agent-disconnected';
   agentSessionId: string;
+  clientInfo?: AgentClientInfo;
 }
 
 export interface ConnectionInfoMessage {
@@ -215,10 +633,10 @@ export interface ConnectionInfoMessage {
 }
 
 // Union type for all WebSocket messages
-export type WebSocketMessage = JsonRpcResponse | ToolRegistrationMessage | ForceDisconnectAgentMessage | UpdateAuthRequirementMessage;
+export type WebSocketMessage = JsonRpcResponse | OutgoingRequestMessage | ProgressNotificationMessage | ListChangedNotificationMessage | ResourceUpdatedNotificationMessage | LoggingMessageNotification | ToolRegistrationMessage | ForceDisconnectAgentMessage | UpdateAuthRequirementMessage | HeartbeatPingMessage;
 
 // Union type for all incoming messages
-export type IncomingMessage = ToolCallMessage | AgentMessage | ConnectionInfoMessage | { type: string; [key: string]: unknown };
+export type IncomingMessage = ToolCallMessage | CancelledNotificationMessage | JsonRpcRequestMessage | JsonRpcResponse | AgentMessage | ConnectionInfoMessage | { type: string; [key: string]: unknown };
 
 // ============================================================================
 // Validation Types
@@ -244,5 +662,20 @@ export interface ConnectionConfig {
   autoReconnect: boolean;
   reconnectInterval: number;
   maxReconnectAttempts: number;
+  maxReconnectDelay?: number; // Default: 30000
+  backoff?: BackoffStrategy; // Default: 'exponential'
+  heartbeatInterval?: number; // Unset or 0 disables the heartbeat
+  maxMissedHeartbeats?: number; // Default: 2
+  outbox?: OutboxOptions; // Unset disables the outbox
   testMode?: boolean; // For fast test execution - uses 1ms reconnect delays
+}
+
+export interface OutboxOptions {
+  maxSize?: number; // Default: 100. The oldest messages are dropped beyond this
+  ttlMs?: number; // Default: 30000. Older messages are dropped instead of sent
+}
+
+export interface OutboxDroppedEvent {
+  reason: 'overflow' | 'expired' | 'closed';  // closed: reconnection was given up or disconnect() was called
+  messages: WebSocketMessage[];
 }
\ No newline at end of file